@@ -0,0 +1,221 @@
+/**
+ * Batch parsing with bounded concurrency.
+ *
+ * @module
+ */
+
+import { FlenseTimeoutError } from "./errors.js";
+import type {
+  FileInput,
+  Flense,
+  JobResult,
+  ParseJob,
+  ParseOptions,
+  ProgressUpdate,
+  UploadOptions,
+  WaitOptions,
+} from "./index.js";
+
+/**
+ * A single document in a batch: a URL string, a `{ url }` object, a
+ * `{ file, filename }` object or a local `{ path }` (Node.js only). Object
+ * inputs may override the batch-wide parse options.
+ */
+export type BatchInput =
+  | string
+  | { url: string; options?: ParseOptions }
+  | { file: FileInput; filename: string; options?: ParseOptions }
+  | { path: string; options?: ParseOptions };
+
+/**
+ * Outcome of one batch item. Items are reported in input order.
+ */
+export type BatchItemResult =
+  | {
+      /** Position of the item in the input list */
+      index: number;
+      /** The original input */
+      input: BatchInput;
+      success: true;
+      /** The job ID for this item */
+      jobId: string;
+      /** The parse result */
+      result: JobResult;
+    }
+  | {
+      /** Position of the item in the input list */
+      index: number;
+      /** The original input */
+      input: BatchInput;
+      success: false;
+      /** The job ID, if the job was created before the failure */
+      jobId?: string;
+      /** Why the item failed */
+      error: Error;
+    };
+
+/**
+ * Progress of a batch, reported whenever any item makes progress.
+ */
+export interface BatchProgress {
+  /** Index of the item this update is for */
+  index: number;
+  /** Latest progress for that item */
+  item: ProgressUpdate;
+  /** Overall progress across all items (0-100) */
+  progress: number;
+  /** Number of items that finished successfully */
+  completed: number;
+  /** Number of items that failed */
+  failed: number;
+  /** Total number of items */
+  total: number;
+}
+
+/**
+ * Options for {@link Flense.parseBatch}.
+ * `timeout` applies to each item separately, from upload to result; `signal`
+ * aborts the whole batch and cancels the jobs in flight.
+ */
+export interface BatchOptions extends Pick<WaitOptions, "signal" | "timeout"> {
+  /**
+   * Maximum number of documents uploading or processing at the same time.
+   * @default 4
+   */
+  concurrency?: number;
+
+  /** Parse options applied to every item (object inputs can override them) */
+  options?: ParseOptions;
+
+  /** Upload options for file and path items, e.g. `{ resumable: true }` */
+  upload?: UploadOptions;
+
+  /**
+   * Called whenever an item reports progress or finishes. Items are then
+   * followed over Server-Sent Events instead of by polling.
+   */
+  onProgress?: (progress: BatchProgress) => void;
+
+  /** Called as soon as each item succeeds or fails */
+  onItemComplete?: (result: BatchItemResult) => void;
+}
+
+/**
+ * Run a batch of parse jobs. Used by {@link Flense.parseBatch}.
+ */
+export async function runBatch(
+  client: Flense,
+  inputs: BatchInput[],
+  options: BatchOptions = {}
+): Promise<BatchItemResult[]> {
+  const { concurrency = 4, signal, timeout } = options;
+  const total = inputs.length;
+  const results: BatchItemResult[] = new Array(total);
+  const itemProgress: number[] = new Array(total).fill(0);
+  let completed = 0;
+  let failed = 0;
+  let next = 0;
+
+  const report = (index: number, item: ProgressUpdate) => {
+    itemProgress[index] = item.progress;
+    const sum = itemProgress.reduce((acc, value) => acc + value, 0);
+    options.onProgress?.({
+      index,
+      item,
+      progress: total > 0 ? sum / total : 100,
+      completed,
+      failed,
+      total,
+    });
+  };
+
+  const createJob = (input: BatchInput): ParseJob => {
+    const job =
+      typeof input === "string"
+        ? client.parseUrl(input)
+        : "url" in input
+          ? client.parseUrl(input.url)
+          : "path" in input
+            ? client.parsePath(input.path, options.upload)
+            : client.parseFile(input.file, input.filename, options.upload);
+
+    job.withOptions({
+      ...options.options,
+      ...(typeof input === "string" ? undefined : input.options),
+    });
+    return job;
+  };
+
+  const runItem = async (index: number): Promise<BatchItemResult> => {
+    const input = inputs[index]!;
+    let job: ParseJob | null = null;
+
+    // `timeout` covers the whole item, from upload to result, on both paths
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal!.reason);
+    signal?.addEventListener("abort", onAbort, { once: true });
+    const timer =
+      timeout !== undefined &&
+      setTimeout(() => {
+        controller.abort(
+          new FlenseTimeoutError(
+            `Timed out after ${timeout}ms waiting for job ${job?.jobId ?? "creation"}`,
+            timeout
+          )
+        );
+      }, timeout);
+
+    try {
+      job = createJob(input);
+      if (options.onProgress) {
+        // Report progress until the job's terminal event
+        for await (const event of job.events({ signal: controller.signal })) {
+          if (event.type === "progress") report(index, event.progress);
+        }
+      }
+      // After the terminal event, the first status request returns the result
+      const result = await job.wait({ signal: controller.signal });
+      completed++;
+      return { index, input, success: true, jobId: job.jobId!, result };
+    } catch (e) {
+      if (signal?.aborted) {
+        void job?.cancel().catch(() => undefined);
+        throw e;
+      }
+      failed++;
+      return {
+        index,
+        input,
+        success: false,
+        jobId: job?.jobId ?? undefined,
+        error: e instanceof Error ? e : new Error(String(e)),
+      };
+    } finally {
+      if (timer) clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+    }
+  };
+
+  const worker = async () => {
+    while (next < total) {
+      signal?.throwIfAborted();
+      const index = next++;
+      const result = await runItem(index);
+      results[index] = result;
+
+      report(index, {
+        progress: 100,
+        stage: result.success ? "completed" : "failed",
+      });
+      options.onItemComplete?.(result);
+    }
+  };
+
+  const workers = Array.from(
+    { length: Math.max(1, Math.min(concurrency, total)) },
+    worker
+  );
+  await Promise.all(workers);
+
+  return results;
+}
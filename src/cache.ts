@@ -0,0 +1,434 @@
+/**
+ * Client-side result cache.
+ *
+ * Results are keyed by the SHA-256 of the file's bytes plus the parse
+ * options that affect the output, so a file that was parsed before is never
+ * uploaded again. Enable it with the `cache` option of {@link FlenseConfig}.
+ *
+ * @example
+ * ```typescript
+ * import { Flense, FileSystemCacheStore } from 'flense';
+ *
+ * const flense = new Flense({
+ *   cache: {
+ *     store: new FileSystemCacheStore({ directory: '.flense-cache', maxSize: 1024 ** 3 }),
+ *     ttl: 30 * 24 * 60 * 60 * 1000,
+ *   },
+ * });
+ * ```
+ *
+ * @module
+ */
+
+import type { FlenseConfig, ParseOptions } from "./index.js";
+import type { StructuredDocument } from "./structured.js";
+
+/**
+ * A cached parse result.
+ */
+export interface CacheEntry {
+  /** The parsed markdown */
+  markdown: string;
+  /** The structured document, if structured output was requested */
+  structured?: StructuredDocument;
+  /** When the entry was stored (ms since epoch) */
+  createdAt: number;
+  /** When the entry stops being valid (ms since epoch), or `null` for never */
+  expiresAt: number | null;
+}
+
+/**
+ * Storage backend for the result cache.
+ *
+ * Implement this to keep results somewhere else, e.g. Redis or S3. Stores
+ * may evict entries at any time to stay within their size limits.
+ */
+export interface CacheStore {
+  /** Get an entry, or `undefined` if it is not stored */
+  get(key: string): Promise<CacheEntry | undefined>;
+  /** Store an entry, replacing any existing one */
+  set(key: string, entry: CacheEntry): Promise<void>;
+  /** Remove an entry */
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Options for the client-side result cache.
+ */
+export interface CacheOptions {
+  /**
+   * Where results are stored.
+   * @default new MemoryCacheStore()
+   */
+  store?: CacheStore;
+
+  /**
+   * How long results stay valid, in milliseconds.
+   * @default no expiry
+   */
+  ttl?: number;
+}
+
+/**
+ * Options for {@link MemoryCacheStore}.
+ */
+export interface MemoryCacheStoreOptions {
+  /**
+   * Maximum number of results kept.
+   * @default 100
+   */
+  maxEntries?: number;
+
+  /**
+   * Maximum total markdown length kept, in characters.
+   * @default 50_000_000
+   */
+  maxSize?: number;
+}
+
+/**
+ * In-memory store that evicts the least recently used results.
+ * Contents are lost when the process exits.
+ */
+export class MemoryCacheStore implements CacheStore {
+  // Map iteration order doubles as recency order
+  private entries = new Map<string, CacheEntry>();
+  private size = 0;
+  private maxEntries: number;
+  private maxSize: number;
+
+  constructor(options: MemoryCacheStoreOptions = {}) {
+    this.maxEntries = options.maxEntries ?? 100;
+    this.maxSize = options.maxSize ?? 50_000_000;
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    await this.delete(key);
+    if (entry.markdown.length > this.maxSize) return;
+
+    this.entries.set(key, entry);
+    this.size += entry.markdown.length;
+    for (const [oldest, old] of this.entries) {
+      if (this.entries.size <= this.maxEntries && this.size <= this.maxSize) break;
+      this.entries.delete(oldest);
+      this.size -= old.markdown.length;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.entries.delete(key);
+      this.size -= entry.markdown.length;
+    }
+  }
+}
+
+/**
+ * Options for {@link FileSystemCacheStore}.
+ */
+export interface FileSystemCacheStoreOptions {
+  /** Directory to keep results in; created if missing */
+  directory: string;
+
+  /**
+   * Maximum total size of the directory in bytes. The least recently used
+   * results are removed when it is exceeded.
+   * @default no limit
+   */
+  maxSize?: number;
+}
+
+/**
+ * Store that keeps one JSON file per result in a directory, so results
+ * survive restarts and can be shared between processes. Node.js only.
+ */
+export class FileSystemCacheStore implements CacheStore {
+  private directory: string;
+  private maxSize?: number;
+
+  constructor(options: FileSystemCacheStoreOptions) {
+    this.directory = options.directory.replace(/[\\/]+$/, "");
+    this.maxSize = options.maxSize;
+  }
+
+  private pathFor(key: string): string {
+    return `${this.directory}/${key}.json`;
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const { promises: fs } = await import("node:fs");
+    let text: string;
+    try {
+      text = await fs.readFile(this.pathFor(key), "utf8");
+    } catch {
+      return undefined;
+    }
+
+    // Touch the file so eviction treats it as recently used
+    const now = new Date();
+    await fs.utimes(this.pathFor(key), now, now).catch(() => {});
+    return JSON.parse(text) as CacheEntry;
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    const { promises: fs } = await import("node:fs");
+    await fs.mkdir(this.directory, { recursive: true });
+
+    // Write then rename, so readers never see a partial file
+    const temporary = `${this.pathFor(key)}.${process.pid}.tmp`;
+    await fs.writeFile(temporary, JSON.stringify(entry));
+    await fs.rename(temporary, this.pathFor(key));
+
+    if (this.maxSize !== undefined) await this.evict(this.maxSize);
+  }
+
+  async delete(key: string): Promise<void> {
+    const { promises: fs } = await import("node:fs");
+    await fs.rm(this.pathFor(key), { force: true });
+  }
+
+  private async evict(maxSize: number): Promise<void> {
+    const { promises: fs } = await import("node:fs");
+    const names = (await fs.readdir(this.directory)).filter((name) =>
+      name.endsWith(".json")
+    );
+    const files = await Promise.all(
+      names.map(async (name) => {
+        const path = `${this.directory}/${name}`;
+        const stats = await fs.stat(path).catch(() => null);
+        return { path, size: stats?.size ?? 0, usedAt: stats?.mtimeMs ?? 0 };
+      })
+    );
+
+    let total = files.reduce((sum, file) => sum + file.size, 0);
+    files.sort((a, b) => a.usedAt - b.usedAt);
+    for (const file of files) {
+      if (total <= maxSize) break;
+      await fs.rm(file.path, { force: true });
+      total -= file.size;
+    }
+  }
+}
+
+/**
+ * Options for {@link IndexedDBCacheStore}.
+ */
+export interface IndexedDBCacheStoreOptions {
+  /**
+   * Name of the IndexedDB database.
+   * @default "flense-cache"
+   */
+  databaseName?: string;
+
+  /**
+   * Maximum number of results kept; the least recently used are removed.
+   * @default 500
+   */
+  maxEntries?: number;
+}
+
+interface StoredEntry extends CacheEntry {
+  key: string;
+  usedAt: number;
+}
+
+const OBJECT_STORE = "results";
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Browser store backed by IndexedDB, so results survive page reloads.
+ */
+export class IndexedDBCacheStore implements CacheStore {
+  private database: Promise<IDBDatabase> | null = null;
+  private databaseName: string;
+  private maxEntries: number;
+
+  constructor(options: IndexedDBCacheStoreOptions = {}) {
+    this.databaseName = options.databaseName ?? "flense-cache";
+    this.maxEntries = options.maxEntries ?? 500;
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      const request = indexedDB.open(this.databaseName, 1);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(OBJECT_STORE, {
+          keyPath: "key",
+        });
+        store.createIndex("usedAt", "usedAt");
+      };
+      this.database = requestToPromise(request);
+    }
+    return this.database;
+  }
+
+  private async objectStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const database = await this.open();
+    return database.transaction(OBJECT_STORE, mode).objectStore(OBJECT_STORE);
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const store = await this.objectStore("readwrite");
+    const stored = (await requestToPromise(store.get(key))) as
+      | StoredEntry
+      | undefined;
+    if (!stored) return undefined;
+
+    store.put({ ...stored, usedAt: Date.now() });
+    const { markdown, structured, createdAt, expiresAt } = stored;
+    return { markdown, ...(structured && { structured }), createdAt, expiresAt };
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    const store = await this.objectStore("readwrite");
+    await requestToPromise(store.put({ ...entry, key, usedAt: Date.now() }));
+
+    const excess = (await requestToPromise(store.count())) - this.maxEntries;
+    if (excess <= 0) return;
+
+    // Oldest first
+    const keys = await requestToPromise(
+      store.index("usedAt").getAllKeys(null, excess)
+    );
+    for (const oldest of keys) store.delete(oldest);
+  }
+
+  async delete(key: string): Promise<void> {
+    const store = await this.objectStore("readwrite");
+    await requestToPromise(store.delete(key));
+  }
+}
+
+function toHex(buffer: ArrayBuffer | Uint8Array): string {
+  return Array.from(new Uint8Array(buffer), (byte) =>
+    byte.toString(16).padStart(2, "0")
+  ).join("");
+}
+
+async function sha256(data: Blob | Uint8Array | string): Promise<string> {
+  let nodeCrypto: typeof import("node:crypto") | null = null;
+  try {
+    nodeCrypto = await import("node:crypto");
+  } catch {
+    // Not Node.js; use Web Crypto below
+  }
+
+  // Bundlers may resolve node:crypto to an empty module instead of failing
+  if (typeof nodeCrypto?.createHash === "function") {
+    // Hash incrementally, so large files are never held in memory
+    const hash = nodeCrypto.createHash("sha256");
+    if (data instanceof Blob) {
+      const reader = data.stream().getReader();
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        hash.update(value);
+      }
+    } else {
+      hash.update(data);
+    }
+    return hash.digest("hex");
+  }
+
+  const bytes =
+    typeof data === "string"
+      ? new TextEncoder().encode(data)
+      : data instanceof Blob
+        ? await data.arrayBuffer()
+        : data;
+  return toHex(await crypto.subtle.digest("SHA-256", bytes as BufferSource));
+}
+
+/** Options that don't change the parsed output. */
+const IGNORED_OPTIONS = new Set<string>(["caching", "webhookUrl", "webhookSecret"]);
+
+/**
+ * The cache as used by the client: keys, TTLs and error isolation on top of
+ * a {@link CacheStore}.
+ */
+export class ResultCache {
+  private store: CacheStore;
+  private ttl?: number;
+
+  constructor(options: CacheOptions) {
+    this.store = options.store ?? new MemoryCacheStore();
+    this.ttl = options.ttl;
+  }
+
+  /**
+   * Create a cache from the client's `cache` option.
+   */
+  static from(option: FlenseConfig["cache"]): ResultCache | null {
+    if (!option) return null;
+    return new ResultCache(option === true ? {} : option);
+  }
+
+  /**
+   * Compute the cache key for a file parsed with the given options.
+   */
+  async key(file: Blob | Uint8Array, options: ParseOptions): Promise<string> {
+    const relevant = Object.entries(options)
+      .filter(([name, value]) => value !== undefined && !IGNORED_OPTIONS.has(name))
+      .sort(([a], [b]) => a.localeCompare(b));
+    return sha256(`${await sha256(file)}\n${JSON.stringify(relevant)}`);
+  }
+
+  /**
+   * Get the result cached under `key`, if present and not expired.
+   */
+  async get(
+    key: string
+  ): Promise<Pick<CacheEntry, "markdown" | "structured"> | undefined> {
+    try {
+      const entry = await this.store.get(key);
+      if (!entry) return undefined;
+      if (entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+        await this.store.delete(key);
+        return undefined;
+      }
+      return {
+        markdown: entry.markdown,
+        ...(entry.structured && { structured: entry.structured }),
+      };
+    } catch {
+      // A broken cache must never fail a parse
+      return undefined;
+    }
+  }
+
+  /**
+   * Cache a result under `key`.
+   */
+  async set(
+    key: string,
+    result: Pick<CacheEntry, "markdown" | "structured">
+  ): Promise<void> {
+    const createdAt = Date.now();
+    try {
+      await this.store.set(key, {
+        markdown: result.markdown,
+        ...(result.structured && { structured: result.structured }),
+        createdAt,
+        expiresAt: this.ttl !== undefined ? createdAt + this.ttl : null,
+      });
+    } catch {
+      // Not caching the result is fine; it has already been delivered
+    }
+  }
+}
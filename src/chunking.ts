@@ -0,0 +1,430 @@
+/**
+ * Markdown chunking for retrieval (RAG) ingestion.
+ *
+ * Splits Flense markdown into chunks sized for an embedding model. Sections
+ * are split at headings, long sections by a token or character budget with
+ * overlap, and pages (from page streaming) are never mixed in one chunk.
+ * Tables and code blocks are kept whole; one that exceeds the budget on its
+ * own is split by rows or lines, repeating the table header or code fence so
+ * every piece is still valid markdown.
+ *
+ * @example
+ * ```typescript
+ * import { chunkMarkdown } from 'flense/chunking';
+ *
+ * const job = flense.parseFile(file, 'handbook.pdf');
+ * const { markdown } = await job.wait();
+ *
+ * for (const chunk of chunkMarkdown(markdown, { maxSize: 512, jobId: job.jobId })) {
+ *   await vectorStore.add(await embed(chunk.text), chunk.metadata);
+ * }
+ * ```
+ *
+ * @module
+ */
+
+import { FlenseError } from "./errors.js";
+import type { ContentChunk } from "./index.js";
+
+/**
+ * Options for {@link chunkMarkdown} and {@link chunkPages}.
+ */
+export interface ChunkingOptions {
+  /**
+   * Largest chunk size, in `unit`s. Rows, lines and words are never split
+   * and headings stay with the text below them, so a chunk can exceed this
+   * by a heading or when a single row, line or word is larger.
+   * @default 512
+   */
+  maxSize?: number;
+
+  /**
+   * How much text from the end of a chunk is repeated at the start of the
+   * next one when a section is split, in `unit`s. Only paragraph text is
+   * repeated, never tables or code.
+   * @default maxSize / 8
+   */
+  overlap?: number;
+
+  /**
+   * What `maxSize` and `overlap` count.
+   * @default "tokens"
+   */
+  unit?: "tokens" | "characters";
+
+  /**
+   * Token counter, e.g. from your embedding model's tokenizer.
+   * @default an estimate of 4 characters per token
+   */
+  countTokens?: (text: string) => number;
+
+  /**
+   * Deepest heading level that starts a new chunk. Deeper headings stay in
+   * the chunk of their parent section, but still appear in heading paths.
+   * @default 3
+   */
+  headingLevel?: number;
+
+  /** Job the markdown came from, recorded in each chunk's metadata */
+  jobId?: string | null;
+}
+
+/**
+ * Where a chunk came from.
+ */
+export interface ChunkMetadata {
+  /** Position of the chunk in the document (0-based) */
+  index: number;
+  /** Source job ID, if passed as `jobId` */
+  jobId?: string;
+  /** Page number, when chunking pages with {@link chunkPages} */
+  page?: number;
+  /** Titles of the headings the chunk is under, outermost first */
+  headings: string[];
+  /** Size of the chunk text, in the configured unit */
+  size: number;
+}
+
+/**
+ * A piece of markdown ready for embedding.
+ */
+export interface MarkdownChunk {
+  /** The chunk's markdown */
+  text: string;
+  /** Position, source and heading path */
+  metadata: ChunkMetadata;
+}
+
+interface Block {
+  type: "heading" | "paragraph" | "table" | "code";
+  text: string;
+  /** Heading level (headings only) */
+  level?: number;
+  /** Heading text without the `#` markers (headings only) */
+  title?: string;
+  /** Whether the block repeats the end of the previous chunk */
+  overlap?: boolean;
+}
+
+interface Heading {
+  level: number;
+  title: string;
+}
+
+interface Settings {
+  maxSize: number;
+  overlap: number;
+  headingLevel: number;
+  measure: (text: string) => number;
+  jobId?: string;
+}
+
+const HEADING = /^ {0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+const TABLE_ROW = /^\s*\|/;
+const TABLE_DELIMITER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+/** Separators tried in turn when splitting long text: lines, sentences, words. */
+const TEXT_SEPARATORS: Array<[RegExp, string]> = [
+  [/\n/, "\n"],
+  [/(?<=[.!?])\s+/, " "],
+  [/\s+/, " "],
+];
+
+function resolveOptions(options: ChunkingOptions): Settings {
+  const maxSize = options.maxSize ?? 512;
+  const overlap = options.overlap ?? Math.floor(maxSize / 8);
+  if (!(maxSize > 0)) {
+    throw new FlenseError("maxSize must be a positive number");
+  }
+  if (!(overlap >= 0 && overlap < maxSize)) {
+    throw new FlenseError("overlap must be at least 0 and less than maxSize");
+  }
+
+  return {
+    maxSize,
+    overlap,
+    headingLevel: options.headingLevel ?? 3,
+    measure:
+      options.unit === "characters"
+        ? (text) => text.length
+        : (options.countTokens ?? ((text) => Math.ceil(text.length / 4))),
+    ...(options.jobId && { jobId: options.jobId }),
+  };
+}
+
+/**
+ * Split markdown into headings, paragraphs, tables and fenced code blocks.
+ */
+function parseBlocks(markdown: string): Block[] {
+  const blocks: Block[] = [];
+  let type: Block["type"] = "paragraph";
+  let lines: string[] = [];
+  let closingFence: RegExp | null = null;
+
+  const flush = () => {
+    if (lines.length > 0) blocks.push({ type, text: lines.join("\n") });
+    lines = [];
+  };
+
+  for (const line of markdown.split(/\r?\n/)) {
+    if (closingFence) {
+      lines.push(line);
+      if (closingFence.test(line)) {
+        closingFence = null;
+        flush();
+      }
+      continue;
+    }
+
+    const fence = FENCE.exec(line);
+    const heading = HEADING.exec(line);
+    if (fence) {
+      flush();
+      type = "code";
+      lines.push(line);
+      const marker = fence[1]!;
+      closingFence = new RegExp(`^ {0,3}\\${marker[0]}{${marker.length},}\\s*$`);
+    } else if (heading) {
+      flush();
+      blocks.push({
+        type: "heading",
+        text: line.trim(),
+        level: heading[1]!.length,
+        title: heading[2]!,
+      });
+    } else if (!line.trim()) {
+      flush();
+    } else {
+      const lineType = TABLE_ROW.test(line) ? "table" : "paragraph";
+      if (lineType !== type) flush();
+      type = lineType;
+      lines.push(line);
+    }
+  }
+  flush();
+  return blocks;
+}
+
+/**
+ * Greedily join pieces into groups no larger than `maxSize` (after `wrap`).
+ * Every group holds at least one piece.
+ */
+function pack(
+  pieces: string[],
+  separator: string,
+  settings: Settings,
+  wrap: (text: string) => string = (text) => text
+): string[] {
+  const groups: string[] = [];
+  let group: string[] = [];
+  for (const piece of pieces) {
+    if (
+      group.length > 0 &&
+      settings.measure(wrap([...group, piece].join(separator))) > settings.maxSize
+    ) {
+      groups.push(wrap(group.join(separator)));
+      group = [];
+    }
+    group.push(piece);
+  }
+  if (group.length > 0) groups.push(wrap(group.join(separator)));
+  return groups;
+}
+
+function splitText(text: string, settings: Settings, level = 0): string[] {
+  if (settings.measure(text) <= settings.maxSize || level >= TEXT_SEPARATORS.length) {
+    return [text];
+  }
+  const [pattern, separator] = TEXT_SEPARATORS[level]!;
+  const pieces = text
+    .split(pattern)
+    .flatMap((piece) => splitText(piece, settings, level + 1));
+  return pack(pieces, separator, settings);
+}
+
+function splitTable(text: string, settings: Settings): string[] {
+  const lines = text.split("\n");
+  // Repeat the header row and delimiter row in every piece
+  const headerLength =
+    lines.length > 2 && TABLE_DELIMITER.test(lines[1]!) ? 2 : 0;
+  const header = lines.slice(0, headerLength).join("\n");
+  return pack(lines.slice(headerLength), "\n", settings, (rows) =>
+    header ? `${header}\n${rows}` : rows
+  );
+}
+
+function splitCode(text: string, settings: Settings): string[] {
+  const lines = text.split("\n");
+  if (lines.length < 3) return [text];
+  const open = lines[0]!;
+  const marker = FENCE.exec(open)![1]!;
+  const closed = lines[lines.length - 1]!.trim().startsWith(marker);
+  const body = lines.slice(1, closed ? -1 : undefined);
+  return pack(body, "\n", settings, (code) => `${open}\n${code}\n${marker}`);
+}
+
+function splitBlock(block: Block, settings: Settings): Block[] {
+  if (block.type === "heading" || settings.measure(block.text) <= settings.maxSize) {
+    return [block];
+  }
+  const pieces =
+    block.type === "table"
+      ? splitTable(block.text, settings)
+      : block.type === "code"
+        ? splitCode(block.text, settings)
+        : splitText(block.text, settings);
+  return pieces.map((text) => ({ type: block.type, text }));
+}
+
+/**
+ * The last words of `text` that fit in `size`.
+ */
+function tailText(text: string, size: number, settings: Settings): string {
+  const words = text.split(/\s+/);
+  let start = words.length;
+  while (start > 0 && settings.measure(words.slice(start - 1).join(" ")) <= size) {
+    start--;
+  }
+  return words.slice(start).join(" ");
+}
+
+/**
+ * Chunk one page (or a whole document), appending to `chunks`. `stack`
+ * holds the open headings and carries over to the next page.
+ */
+function chunkInto(
+  chunks: MarkdownChunk[],
+  stack: Heading[],
+  markdown: string,
+  page: number | undefined,
+  settings: Settings
+): void {
+  let current: Block[] = [];
+  let headings: string[] = [];
+
+  const hasContent = () =>
+    current.some((block) => block.type !== "heading" && !block.overlap);
+
+  const push = (block: Block) => {
+    // The heading path is the one in effect where the chunk's content starts
+    if (block.type !== "heading" && !current.some((b) => b.type !== "heading")) {
+      headings = stack.map((heading) => heading.title);
+    }
+    current.push(block);
+  };
+
+  const flush = (withOverlap: boolean) => {
+    // Trailing headings introduce the content that follows, so move them on
+    const carried: Block[] = [];
+    while (current.length > 0 && current[current.length - 1]!.type === "heading") {
+      carried.unshift(current.pop()!);
+    }
+
+    if (current.length > 0) {
+      const text = current.map((block) => block.text).join("\n\n");
+      chunks.push({
+        text,
+        metadata: {
+          index: chunks.length,
+          ...(settings.jobId && { jobId: settings.jobId }),
+          ...(page !== undefined && { page }),
+          headings,
+          size: settings.measure(text),
+        },
+      });
+    }
+
+    const last = current[current.length - 1];
+    current = [];
+    if (
+      withOverlap &&
+      carried.length === 0 &&
+      settings.overlap > 0 &&
+      last?.type === "paragraph"
+    ) {
+      const tail = tailText(last.text, settings.overlap, settings);
+      if (tail) push({ type: "paragraph", text: tail, overlap: true });
+    }
+    carried.forEach(push);
+  };
+
+  for (const block of parseBlocks(markdown)) {
+    if (block.type === "heading") {
+      while (stack.length > 0 && stack[stack.length - 1]!.level >= block.level!) {
+        stack.pop();
+      }
+      stack.push({ level: block.level!, title: block.title! });
+      if (block.level! <= settings.headingLevel && hasContent()) flush(false);
+    }
+
+    for (const piece of splitBlock(block, settings)) {
+      const fits = () =>
+        settings.measure([...current, piece].map((b) => b.text).join("\n\n")) <=
+        settings.maxSize;
+      if (!fits() && hasContent()) flush(true);
+      // Overlap must never push a chunk over the limit
+      if (!fits()) current = current.filter((b) => !b.overlap);
+      push(piece);
+    }
+  }
+
+  if (hasContent()) flush(false);
+}
+
+/**
+ * Split markdown into chunks for embedding.
+ *
+ * @param markdown - Markdown from a parse result
+ * @param options - Chunk size, overlap, heading level and source job ID
+ * @returns Chunks in document order
+ *
+ * @example
+ * ```typescript
+ * const chunks = chunkMarkdown(result.markdown, { unit: 'characters', maxSize: 2000, overlap: 200 });
+ * console.log(chunks[0].metadata.headings); // ['Employee Handbook', 'Leave']
+ * ```
+ */
+export function chunkMarkdown(
+  markdown: string,
+  options: ChunkingOptions = {}
+): MarkdownChunk[] {
+  const chunks: MarkdownChunk[] = [];
+  chunkInto(chunks, [], markdown, undefined, resolveOptions(options));
+  return chunks;
+}
+
+/**
+ * Split per-page content from page streaming into chunks for embedding.
+ *
+ * Chunks never span pages and carry their page number; headings carry over
+ * from one page to the next, so a section continuing on the next page keeps
+ * its heading path.
+ *
+ * @param pages - Page content, e.g. collected from `onContent` (any order)
+ * @param options - Chunk size, overlap, heading level and source job ID
+ * @returns Chunks in page order
+ *
+ * @example
+ * ```typescript
+ * const job = flense.parseFile(file, 'report.pdf').withPageStreaming();
+ * const pages: ContentChunk[] = [];
+ * for await (const event of job.events()) {
+ *   if (event.type === 'content') pages.push(event.content);
+ * }
+ *
+ * const chunks = chunkPages(pages, { jobId: job.jobId });
+ * ```
+ */
+export function chunkPages(
+  pages: ContentChunk[],
+  options: ChunkingOptions = {}
+): MarkdownChunk[] {
+  const settings = resolveOptions(options);
+  const chunks: MarkdownChunk[] = [];
+  const stack: Heading[] = [];
+  for (const { page, content } of [...pages].sort((a, b) => a.page - b.page)) {
+    chunkInto(chunks, stack, content, page, settings);
+  }
+  return chunks;
+}
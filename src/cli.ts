@@ -0,0 +1,567 @@
+#!/usr/bin/env node
+/**
+ * Flense command-line interface.
+ *
+ * @example
+ * ```bash
+ * export FLENSE_API_KEY=flense_...
+ * flense parse report.pdf scans/ "invoices/*.pdf" --ocr --out-dir markdown/
+ * flense status job_abc123
+ * flense wait job_abc123 > result.md
+ * flense jobs --state failed --since 24h
+ * ```
+ *
+ * @module
+ */
+
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import {
+  FileSystemCacheStore,
+  Flense,
+  type BatchInput,
+  type JobState,
+  type JobStatus,
+  type ParseOptions,
+} from "./index.js";
+import { getFilenameFromUrl, isSupportedFilename } from "./mime.js";
+import { formatPageRanges } from "./pages.js";
+
+const USAGE = `Usage: flense <command> [options]
+
+Commands:
+  parse <inputs...>   Parse files, directories, glob patterns or URLs to markdown
+  status <jobId>      Show the current status of a job
+  wait <jobId>        Wait for a job to finish and print its markdown
+  jobs                List recent jobs, newest first
+
+Parse options:
+  --ocr               Enable OCR for scanned documents
+  --tables            Enable table structure detection
+  --images            Enable image extraction
+  --page-streaming    Process pages concurrently and stream them as they finish
+  --pages <ranges>    Parse only these pages, e.g. 1-5,12
+  --no-cache          Force a fresh parse even if a cached result exists
+  --resumable         Upload files in chunks that survive connection drops
+  --cache-dir <dir>   Reuse results for unchanged files, stored in this directory
+  -o, --out-dir <dir> Write <name>.md files into this directory
+  -c, --concurrency <n>  Documents to process at once (default 4)
+
+Job listing options:
+  --state <states>    Only jobs in these states, e.g. failed,active
+  --since <time>      Only jobs created since an ISO 8601 time or a duration
+                      ago (30m, 24h, 7d)
+  --until <time>      Only jobs created before this time or duration ago
+  --limit <n>         Show at most this many jobs (default 20)
+
+Common options:
+  --json              Print machine-readable JSON to stdout
+  -q, --quiet         Hide progress output
+  --timeout <sec>     Give up waiting after this many seconds
+  --base-url <url>    Override the API base URL
+  -h, --help          Show this help
+  -v, --version       Show the version
+
+The API key is read from the FLENSE_API_KEY environment variable.
+
+Without --out-dir, a single input is printed to stdout; with several inputs,
+each file's markdown is written next to it (URLs into the current directory).
+`;
+
+interface CliOptions {
+  ocr: boolean;
+  tables: boolean;
+  images: boolean;
+  pageStreaming: boolean;
+  pages?: string;
+  noCache: boolean;
+  resumable: boolean;
+  cacheDir?: string;
+  outDir?: string;
+  concurrency: number;
+  state?: JobState[];
+  since?: Date;
+  until?: Date;
+  limit: number;
+  json: boolean;
+  quiet: boolean;
+  timeout?: number;
+  baseUrl?: string;
+}
+
+interface ParseOutcome {
+  input: string;
+  jobId?: string;
+  success: boolean;
+  outputPath?: string;
+  markdown?: string;
+  error?: string;
+}
+
+const JOB_STATES: JobState[] = [
+  "created",
+  "active",
+  "completed",
+  "failed",
+  "cancelled",
+  "archived",
+];
+
+const DURATION_UNITS: Record<string, number> = {
+  m: 60_000,
+  h: 60 * 60_000,
+  d: 24 * 60 * 60_000,
+};
+
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+/**
+ * Parse a `--since`/`--until` value: an ISO 8601 time, or a duration such as
+ * `24h` meaning that long ago.
+ */
+function parseTime(flag: string, value: string): Date {
+  const duration = /^(\d+)([mhd])$/.exec(value);
+  const time = duration
+    ? new Date(Date.now() - Number(duration[1]) * DURATION_UNITS[duration[2]!]!)
+    : new Date(value);
+  if (Number.isNaN(time.getTime())) {
+    throw new UsageError(`${flag} must be an ISO 8601 time or a duration like 24h`);
+  }
+  return time;
+}
+
+function isUrl(input: string): boolean {
+  return /^https?:\/\//i.test(input);
+}
+
+function globToRegExp(pattern: string): RegExp {
+  let source = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]!;
+    if (char === "*") {
+      if (pattern[i + 1] === "*") {
+        // "**/" matches zero or more directories
+        const slash = pattern[i + 2] === "/";
+        source += slash ? "(?:.*/)?" : ".*";
+        i += slash ? 2 : 1;
+      } else {
+        source += "[^/]*";
+      }
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+async function walk(dir: string): Promise<string[]> {
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+  const files: string[] = [];
+  for (const entry of entries) {
+    if (entry.name.startsWith(".")) continue;
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...(await walk(fullPath)));
+    } else if (entry.isFile()) {
+      files.push(fullPath);
+    }
+  }
+  return files;
+}
+
+/**
+ * Expand directories and glob patterns into a list of files and URLs.
+ */
+async function expandInputs(inputs: string[]): Promise<string[]> {
+  const expanded: string[] = [];
+
+  for (const input of inputs) {
+    if (isUrl(input)) {
+      expanded.push(input);
+      continue;
+    }
+
+    if (/[*?]/.test(input)) {
+      const normalized = input.split(path.sep).join("/");
+      const segments = normalized.split("/");
+      const firstGlob = segments.findIndex((segment) => /[*?]/.test(segment));
+      const base = segments.slice(0, firstGlob).join("/") || ".";
+      const matcher = globToRegExp(normalized.replace(/^\.\//, ""));
+
+      const files = await walk(base).catch(() => []);
+      const matches = files.filter((file) =>
+        matcher.test(file.split(path.sep).join("/").replace(/^\.\//, ""))
+      );
+      if (matches.length === 0) {
+        throw new UsageError(`No files match ${input}`);
+      }
+      expanded.push(...matches.filter(isSupportedFilename));
+      continue;
+    }
+
+    const stat = await fs.stat(input).catch(() => null);
+    if (!stat) {
+      throw new UsageError(`No such file or directory: ${input}`);
+    }
+    if (stat.isDirectory()) {
+      expanded.push(...(await walk(input)).filter(isSupportedFilename));
+    } else {
+      expanded.push(input);
+    }
+  }
+
+  return expanded;
+}
+
+function outputPathFor(input: string, outDir: string | undefined): string {
+  const name = isUrl(input) ? getFilenameFromUrl(input) : path.basename(input);
+  const markdownName = `${name.replace(/\.[^.]+$/, "")}.md`;
+  if (outDir) return path.join(outDir, markdownName);
+  return isUrl(input) ? markdownName : path.join(path.dirname(input), markdownName);
+}
+
+function progressBar(percent: number, width = 20): string {
+  const filled = Math.round((Math.max(0, Math.min(100, percent)) / 100) * width);
+  return `${"█".repeat(filled)}${"░".repeat(width - filled)}`;
+}
+
+/**
+ * Multi-line progress display on stderr.
+ *
+ * On a TTY the active items are redrawn in place; otherwise only finished
+ * items are logged, one line each.
+ */
+class ProgressDisplay {
+  private active = new Map<number, string>();
+  private rendered = 0;
+  private isTTY = Boolean(process.stderr.isTTY);
+
+  constructor(private enabled: boolean) {}
+
+  update(index: number, line: string): void {
+    if (!this.enabled || !this.isTTY) return;
+    this.active.set(index, line);
+    this.render();
+  }
+
+  finish(index: number, line: string): void {
+    if (!this.enabled) return;
+    this.active.delete(index);
+    this.render([line]);
+  }
+
+  private render(log: string[] = []): void {
+    if (!this.isTTY) {
+      for (const line of log) process.stderr.write(`${line}\n`);
+      return;
+    }
+
+    let output = this.rendered > 0 ? `\x1b[${this.rendered}F\x1b[0J` : "";
+    for (const line of log) output += `${line}\n`;
+    for (const line of this.active.values()) output += `${line}\n`;
+    this.rendered = this.active.size;
+    process.stderr.write(output);
+  }
+}
+
+async function runParse(
+  client: Flense,
+  inputs: string[],
+  options: CliOptions
+): Promise<number> {
+  if (inputs.length === 0) {
+    throw new UsageError("parse requires at least one file, directory, glob or URL");
+  }
+
+  const files = await expandInputs(inputs);
+  if (files.length === 0) {
+    throw new UsageError("No supported documents found");
+  }
+
+  const parseOptions: ParseOptions = {
+    ocr: options.ocr,
+    tables: options.tables,
+    images: options.images,
+    pageStreaming: options.pageStreaming,
+    pages: options.pages,
+    caching: !options.noCache,
+  };
+
+  // Files are streamed from disk only when each upload starts
+  const batchInputs: BatchInput[] = files.map((input) =>
+    isUrl(input) ? input : { path: input }
+  );
+
+  const toStdout = !options.outDir && files.length === 1 && !options.json;
+  if (options.outDir) {
+    await fs.mkdir(options.outDir, { recursive: true });
+  }
+
+  const display = new ProgressDisplay(!options.quiet);
+  const outcomes: ParseOutcome[] = [];
+
+  const results = await client.parseBatch(batchInputs, {
+    concurrency: options.concurrency,
+    options: parseOptions,
+    upload: { resumable: options.resumable },
+    timeout: options.timeout,
+    onProgress: ({ index, item }) => {
+      const page =
+        item.currentPage && item.totalPages
+          ? ` page ${item.currentPage}/${item.totalPages}`
+          : "";
+      display.update(
+        index,
+        `${progressBar(item.progress)} ${item.progress.toFixed(0).padStart(3)}% ${files[index]} (${item.stage}${page})`
+      );
+    },
+    onItemComplete: (result) => {
+      const input = files[result.index]!;
+      display.finish(
+        result.index,
+        result.success ? `✔ ${input}` : `✖ ${input}: ${result.error.message}`
+      );
+    },
+  });
+
+  for (const result of results) {
+    const input = files[result.index]!;
+
+    if (!result.success) {
+      outcomes.push({
+        input,
+        jobId: result.jobId,
+        success: false,
+        error: result.error.message,
+      });
+      continue;
+    }
+
+    const outcome: ParseOutcome = { input, jobId: result.jobId, success: true };
+    if (toStdout) {
+      process.stdout.write(result.result.markdown);
+    } else {
+      outcome.outputPath = outputPathFor(input, options.outDir);
+      await fs.writeFile(outcome.outputPath, result.result.markdown);
+      if (options.json) outcome.markdown = result.result.markdown;
+    }
+    outcomes.push(outcome);
+  }
+
+  if (options.json) {
+    process.stdout.write(`${JSON.stringify(outcomes, null, 2)}\n`);
+  }
+
+  return outcomes.every((outcome) => outcome.success) ? 0 : 1;
+}
+
+async function runStatus(
+  client: Flense,
+  jobId: string | undefined,
+  options: CliOptions
+): Promise<number> {
+  if (!jobId) throw new UsageError("status requires a job ID");
+
+  const status = await client.getJobStatus(jobId);
+  if (options.json) {
+    process.stdout.write(`${JSON.stringify(status, null, 2)}\n`);
+  } else {
+    process.stdout.write(`${status.id}: ${status.state}\n`);
+    if (status.error) process.stdout.write(`error: ${status.error}\n`);
+  }
+  return status.state === "failed" ? 1 : 0;
+}
+
+async function runWait(
+  client: Flense,
+  jobId: string | undefined,
+  options: CliOptions
+): Promise<number> {
+  if (!jobId) throw new UsageError("wait requires a job ID");
+
+  const display = new ProgressDisplay(!options.quiet);
+  const result = await client.waitForJob(jobId, {
+    timeout: options.timeout,
+    onPoll: (status) => display.update(0, `${jobId}: ${status.state}`),
+  });
+  display.finish(0, `✔ ${jobId}`);
+
+  if (options.json) {
+    process.stdout.write(`${JSON.stringify({ jobId, ...result }, null, 2)}\n`);
+  } else {
+    process.stdout.write(result.markdown);
+  }
+  return 0;
+}
+
+async function runJobs(client: Flense, options: CliOptions): Promise<number> {
+  const jobs: JobStatus[] = [];
+  if (options.limit > 0) {
+    const list = client.listJobs({
+      state: options.state,
+      createdAfter: options.since,
+      createdBefore: options.until,
+      limit: Math.min(options.limit, 100),
+    });
+    for await (const job of list) {
+      jobs.push(job);
+      if (jobs.length >= options.limit) break;
+    }
+  }
+
+  if (options.json) {
+    process.stdout.write(`${JSON.stringify(jobs, null, 2)}\n`);
+  } else {
+    for (const job of jobs) {
+      const columns = [job.id, job.state, job.createdOn ?? "", job.error ?? ""];
+      process.stdout.write(`${columns.join("\t").trimEnd()}\n`);
+    }
+  }
+  return 0;
+}
+
+async function readVersion(): Promise<string> {
+  const packageJson = await fs.readFile(
+    new URL("../package.json", import.meta.url),
+    "utf8"
+  );
+  return (JSON.parse(packageJson) as { version: string }).version;
+}
+
+/**
+ * Run the CLI with the given arguments (without the `node` and script path).
+ *
+ * @returns Process exit code
+ */
+async function main(argv: string[]): Promise<number> {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        ocr: { type: "boolean", default: false },
+        tables: { type: "boolean", default: false },
+        images: { type: "boolean", default: false },
+        "page-streaming": { type: "boolean", default: false },
+        pages: { type: "string" },
+        "no-cache": { type: "boolean", default: false },
+        resumable: { type: "boolean", default: false },
+        "cache-dir": { type: "string" },
+        "out-dir": { type: "string", short: "o" },
+        concurrency: { type: "string", short: "c" },
+        state: { type: "string" },
+        since: { type: "string" },
+        until: { type: "string" },
+        limit: { type: "string" },
+        json: { type: "boolean", default: false },
+        quiet: { type: "boolean", short: "q", default: false },
+        timeout: { type: "string" },
+        "base-url": { type: "string" },
+        help: { type: "boolean", short: "h", default: false },
+        version: { type: "boolean", short: "v", default: false },
+      },
+    });
+  } catch (e) {
+    process.stderr.write(`${e instanceof Error ? e.message : e}\n\n${USAGE}`);
+    return 2;
+  }
+
+  const { values, positionals } = parsed;
+  const [command, ...args] = positionals;
+
+  if (values.version) {
+    process.stdout.write(`${await readVersion()}\n`);
+    return 0;
+  }
+  if (values.help || !command) {
+    process.stdout.write(USAGE);
+    return values.help ? 0 : 2;
+  }
+
+  const options: CliOptions = {
+    ocr: values.ocr,
+    tables: values.tables,
+    images: values.images,
+    pageStreaming: values["page-streaming"],
+    pages: values.pages,
+    noCache: values["no-cache"],
+    resumable: values.resumable,
+    cacheDir: values["cache-dir"],
+    outDir: values["out-dir"],
+    concurrency: values.concurrency ? parseInt(values.concurrency, 10) : 4,
+    limit: values.limit ? parseInt(values.limit, 10) : 20,
+    json: values.json,
+    quiet: values.quiet,
+    timeout: values.timeout ? parseFloat(values.timeout) * 1000 : undefined,
+    baseUrl: values["base-url"],
+  };
+
+  try {
+    if (!Number.isInteger(options.concurrency) || options.concurrency < 1) {
+      throw new UsageError("--concurrency must be a positive integer");
+    }
+    if (options.timeout !== undefined && !(options.timeout > 0)) {
+      throw new UsageError("--timeout must be a positive number of seconds");
+    }
+    if (!Number.isInteger(options.limit) || options.limit < 0) {
+      throw new UsageError("--limit must be a non-negative integer");
+    }
+    if (values.state) {
+      options.state = values.state.split(",").map((state) => {
+        if (!JOB_STATES.includes(state as JobState)) {
+          throw new UsageError(`Unknown job state: ${state}`);
+        }
+        return state as JobState;
+      });
+    }
+    if (values.since) options.since = parseTime("--since", values.since);
+    if (values.until) options.until = parseTime("--until", values.until);
+    if (options.pages !== undefined) {
+      try {
+        options.pages = formatPageRanges(options.pages);
+      } catch (e) {
+        throw new UsageError(`--pages: ${(e as Error).message}`);
+      }
+    }
+
+    const client = new Flense({
+      baseUrl: options.baseUrl,
+      cache: options.cacheDir
+        ? { store: new FileSystemCacheStore({ directory: options.cacheDir }) }
+        : false,
+    });
+
+    switch (command) {
+      case "parse":
+        return await runParse(client, args, options);
+      case "status":
+        return await runStatus(client, args[0], options);
+      case "wait":
+        return await runWait(client, args[0], options);
+      case "jobs":
+        return await runJobs(client, options);
+      default:
+        throw new UsageError(`Unknown command: ${command}`);
+    }
+  } catch (e) {
+    if (e instanceof UsageError) {
+      process.stderr.write(`flense: ${e.message}\n\n${USAGE}`);
+      return 2;
+    }
+    process.stderr.write(`flense: ${e instanceof Error ? e.message : e}\n`);
+    return 1;
+  }
+}
+
+main(process.argv.slice(2)).then((code) => {
+  process.exitCode = code;
+});
@@ -0,0 +1,291 @@
+/**
+ * Error classes thrown by the Flense client.
+ *
+ * Every error extends {@link FlenseError}, so callers can branch on
+ * `instanceof` instead of matching error messages.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await flense.parseFile(file, 'doc.pdf').wait();
+ * } catch (error) {
+ *   if (error instanceof FlenseRateLimitError) {
+ *     await sleep((error.retryAfter ?? 1) * 1000);
+ *   } else if (error instanceof FlenseJobFailedError) {
+ *     console.error('Job failed:', error.status.error);
+ *   }
+ * }
+ * ```
+ *
+ * @module
+ */
+
+import type { JobStatus } from "./index.js";
+import type { ValidationIssue, ValidationResult } from "./validation.js";
+
+/**
+ * Base class for all errors thrown by the Flense client.
+ */
+export class FlenseError extends Error {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = "FlenseError";
+  }
+}
+
+/**
+ * Details of a failed HTTP response from the Flense API.
+ */
+export interface FlenseAPIErrorDetails {
+  /** HTTP status code */
+  status: number;
+  /** Parsed JSON error body, or the raw text if it was not JSON */
+  body?: unknown;
+  /** Machine-readable error code from the response body, if present */
+  code?: string;
+  /** Request ID from the `x-request-id` response header, if present */
+  requestId?: string;
+  /** Seconds to wait before retrying, from the `Retry-After` header */
+  retryAfter?: number;
+}
+
+/**
+ * The Flense API responded with a non-2xx status.
+ *
+ * More specific subclasses are thrown for authentication, validation,
+ * rate-limit and quota errors.
+ */
+export class FlenseAPIError extends FlenseError {
+  /** HTTP status code */
+  readonly status: number;
+  /** Parsed JSON error body, or the raw text if it was not JSON */
+  readonly body?: unknown;
+  /** Machine-readable error code from the response body, if present */
+  readonly code?: string;
+  /** Request ID from the `x-request-id` response header, if present */
+  readonly requestId?: string;
+  /**
+   * Seconds to wait before retrying, from the `Retry-After` header (sent
+   * with 429 and often 503 responses)
+   */
+  readonly retryAfter?: number;
+
+  constructor(message: string, details: FlenseAPIErrorDetails) {
+    super(message);
+    this.name = "FlenseAPIError";
+    this.status = details.status;
+    this.body = details.body;
+    this.code = details.code;
+    this.requestId = details.requestId;
+    this.retryAfter = details.retryAfter;
+  }
+}
+
+/**
+ * The API key is missing, invalid or not allowed to perform the request
+ * (HTTP 401/403).
+ */
+export class FlenseAuthError extends FlenseAPIError {
+  constructor(message: string, details: FlenseAPIErrorDetails) {
+    super(message, details);
+    this.name = "FlenseAuthError";
+  }
+}
+
+/**
+ * The request was rejected as invalid (HTTP 400/422), e.g. an unsupported
+ * file type or malformed options.
+ */
+export class FlenseValidationError extends FlenseAPIError {
+  constructor(message: string, details: FlenseAPIErrorDetails) {
+    super(message, details);
+    this.name = "FlenseValidationError";
+  }
+}
+
+/**
+ * Too many requests were sent in a short period (HTTP 429).
+ */
+export class FlenseRateLimitError extends FlenseAPIError {
+  constructor(message: string, details: FlenseAPIErrorDetails) {
+    super(message, details);
+    this.name = "FlenseRateLimitError";
+  }
+}
+
+/**
+ * The account has used up its parse quota (HTTP 402, or a 403/429 with a
+ * `quota_exceeded` error code).
+ */
+export class FlenseQuotaExceededError extends FlenseAPIError {
+  constructor(message: string, details: FlenseAPIErrorDetails) {
+    super(message, details);
+    this.name = "FlenseQuotaExceededError";
+  }
+}
+
+/**
+ * A parse job finished in the `failed` state.
+ */
+export class FlenseJobFailedError extends FlenseError {
+  /** The final status of the failed job */
+  readonly status: JobStatus;
+
+  constructor(status: JobStatus) {
+    super(`Job ${status.id} failed: ${status.error ?? "Unknown error"}`);
+    this.name = "FlenseJobFailedError";
+    this.status = status;
+  }
+}
+
+/**
+ * A parse job was cancelled before it completed.
+ */
+export class FlenseJobCancelledError extends FlenseError {
+  /** The final status of the cancelled job */
+  readonly status: JobStatus;
+
+  constructor(status: JobStatus) {
+    super(`Job ${status.id} was cancelled`);
+    this.name = "FlenseJobCancelledError";
+    this.status = status;
+  }
+}
+
+/**
+ * An operation did not finish within its configured time limit.
+ */
+export class FlenseTimeoutError extends FlenseError {
+  /** The time limit that was exceeded, in milliseconds */
+  readonly timeout: number;
+
+  constructor(message: string, timeout: number) {
+    super(message);
+    this.name = "FlenseTimeoutError";
+    this.timeout = timeout;
+  }
+}
+
+/**
+ * The request could not reach the Flense API (DNS failure, connection
+ * reset, offline, etc.). The underlying error is available as `cause`.
+ */
+export class FlenseNetworkError extends FlenseError {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = "FlenseNetworkError";
+  }
+}
+
+/**
+ * A file failed client-side validation and was not uploaded.
+ */
+export class FlenseInvalidFileError extends FlenseError {
+  /** The problems found; see {@link ValidationIssue.code} */
+  readonly issues: ValidationIssue[];
+  /** The full validation result */
+  readonly result: ValidationResult;
+
+  constructor(result: ValidationResult) {
+    const errors = result.issues.filter((issue) => issue.severity === "error");
+    super(errors.map((issue) => issue.message).join("; "));
+    this.name = "FlenseInvalidFileError";
+    this.issues = result.issues;
+    this.result = result;
+  }
+}
+
+/**
+ * A resumable upload gave up after repeated failures.
+ *
+ * The bytes already received are kept by the server, so the upload can be
+ * continued later by passing {@link uploadId} back to `parseFile()`.
+ */
+export class FlenseUploadError extends FlenseError {
+  /** Upload session ID to resume from */
+  readonly uploadId: string;
+  /** Bytes the server had received when the upload stopped */
+  readonly bytesUploaded: number;
+
+  constructor(
+    message: string,
+    details: { uploadId: string; bytesUploaded: number },
+    options?: ErrorOptions
+  ) {
+    super(message, options);
+    this.name = "FlenseUploadError";
+    this.uploadId = details.uploadId;
+    this.bytesUploaded = details.bytesUploaded;
+  }
+}
+
+/**
+ * A webhook delivery failed signature or timestamp verification.
+ */
+export class FlenseWebhookVerificationError extends FlenseError {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = "FlenseWebhookVerificationError";
+  }
+}
+
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds);
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) return Math.max(0, (date - Date.now()) / 1000);
+
+  return undefined;
+}
+
+/**
+ * Build the appropriate {@link FlenseAPIError} subclass for a failed response.
+ *
+ * @param response - The non-2xx response
+ * @param errorText - The response body text
+ */
+export function createAPIError(
+  response: Response,
+  errorText: string
+): FlenseAPIError {
+  let body: unknown = errorText || undefined;
+  let detail = errorText;
+  let code: string | undefined;
+
+  try {
+    const json = JSON.parse(errorText) as Record<string, unknown>;
+    body = json;
+    if (typeof json.code === "string") code = json.code;
+    if (typeof json.message === "string") detail = json.message;
+    else if (typeof json.error === "string") detail = json.error;
+  } catch {
+    // Not JSON, keep the raw text
+  }
+
+  const status = response.status;
+  const details: FlenseAPIErrorDetails = {
+    status,
+    body,
+    code,
+    requestId: response.headers.get("x-request-id") ?? undefined,
+    retryAfter: parseRetryAfter(response.headers.get("retry-after")),
+  };
+  const message = `Flense API error (${status}): ${detail}`;
+
+  if (status === 402 || code === "quota_exceeded") {
+    return new FlenseQuotaExceededError(message, details);
+  }
+  if (status === 401 || status === 403) {
+    return new FlenseAuthError(message, details);
+  }
+  if (status === 429) {
+    return new FlenseRateLimitError(message, details);
+  }
+  if (status === 400 || status === 422) {
+    return new FlenseValidationError(message, details);
+  }
+  return new FlenseAPIError(message, details);
+}
@@ -0,0 +1,312 @@
+/**
+ * Record-and-replay fixtures.
+ *
+ * In `record` mode the client captures every HTTP exchange, including SSE
+ * event streams with their timing, to a JSON fixture file. In `replay` mode
+ * it answers every request from that file without touching the network, so
+ * real parse runs can be captured once and replayed in tests. Node.js only.
+ *
+ * @example
+ * ```typescript
+ * // Once, against the real API
+ * const recorder = new Flense({ fixtures: { mode: 'record', path: 'fixtures/invoice.json' } });
+ * await recorder.parsePath('invoice.pdf').wait();
+ *
+ * // In tests, offline
+ * const flense = new Flense({
+ *   apiKey: 'replay',
+ *   fixtures: { mode: 'replay', path: 'fixtures/invoice.json', speed: Infinity },
+ * });
+ * const result = await flense.parsePath('invoice.pdf').wait();
+ * ```
+ *
+ * @module
+ */
+
+import { FlenseError } from "./errors.js";
+
+/**
+ * Options for recording or replaying fixtures, as given in
+ * {@link FlenseConfig}.
+ */
+export interface FixtureOptions {
+  /** Capture exchanges to `path`, or answer requests from it */
+  mode: "record" | "replay";
+
+  /** Fixture file; overwritten when recording */
+  path: string;
+
+  /**
+   * Time compression for replay: `10` replays response delays and SSE event
+   * timing ten times faster, `Infinity` without any delay.
+   * @default 1
+   */
+  speed?: number;
+}
+
+/**
+ * A recorded request and its response.
+ */
+export interface RecordedExchange {
+  request: {
+    method: string;
+    /** Path and query for API requests; the full URL for other hosts */
+    url: string;
+    /**
+     * JSON request body, if any, with secrets such as `webhookSecret` masked
+     * (uploads are not recorded)
+     */
+    body?: unknown;
+  };
+  response: {
+    status: number;
+    headers: Record<string, string>;
+    /** Milliseconds until the response headers arrived */
+    duration: number;
+    /** Text body */
+    body?: string;
+    /** Binary body, base64-encoded */
+    bodyBase64?: string;
+    /** Event stream body, as the text chunks received and when */
+    events?: { at: number; data: string }[];
+  };
+}
+
+/**
+ * Contents of a fixture file.
+ */
+export interface Fixture {
+  version: 1;
+  /** When the recording started (ISO 8601) */
+  recordedAt: string;
+  exchanges: RecordedExchange[];
+}
+
+type FetchFunction = (input: RequestInfo | URL, init?: RequestInit) => Promise<Response>;
+
+const RECORDED_HEADERS = ["content-type", "retry-after", "x-request-id"];
+
+function isText(contentType: string): boolean {
+  return /^text\/|json|xml/.test(contentType);
+}
+
+const SECRET_FIELD = /secret|password|token|api_?key|authorization/i;
+
+/**
+ * Copy a JSON body for recording, masking secret-bearing fields.
+ */
+function redactBody(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(redactBody);
+  if (typeof value !== "object" || value === null) return value;
+  return Object.fromEntries(
+    Object.entries(value).map(([name, field]) => [
+      name,
+      SECRET_FIELD.test(name) && field != null ? "[redacted]" : redactBody(field),
+    ])
+  );
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  if (ms <= 0 || !Number.isFinite(ms)) return Promise.resolve();
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        resolve();
+      },
+      { once: true }
+    );
+  });
+}
+
+/**
+ * Wrap a client's `fetch` to record exchanges to, or replay them from, a
+ * fixture file.
+ *
+ * @param fetchImpl - The `fetch` used when recording
+ * @param options - Mode, fixture path and replay speed
+ * @param baseUrl - The client's API base URL; requests to it are keyed by
+ *   path, so fixtures replay against any base URL
+ */
+export function createFixtureFetch(
+  fetchImpl: FetchFunction,
+  options: FixtureOptions,
+  baseUrl: string
+): FetchFunction {
+  const keyOf = (url: string) => {
+    if (!url.startsWith(`${baseUrl}/`)) return url;
+    return url.slice(baseUrl.length);
+  };
+  return options.mode === "record"
+    ? recordFetch(fetchImpl, options.path, keyOf)
+    : replayFetch(options.path, options.speed ?? 1, keyOf);
+}
+
+function recordFetch(
+  fetchImpl: FetchFunction,
+  path: string,
+  keyOf: (url: string) => string
+): FetchFunction {
+  const fixture: Fixture = {
+    version: 1,
+    recordedAt: new Date().toISOString(),
+    exchanges: [],
+  };
+
+  // Writes are chained so the file always ends up with the latest state
+  let writing = Promise.resolve();
+  const save = () => {
+    writing = writing.then(async () => {
+      const { promises: fs } = await import("node:fs");
+      const directory = path.replace(/[\\/][^\\/]*$/, "");
+      if (directory !== path) await fs.mkdir(directory, { recursive: true });
+      await fs.writeFile(path, `${JSON.stringify(fixture, null, 2)}\n`);
+    });
+    return writing;
+  };
+
+  return async (input, init) => {
+    const request = new Request(input, init);
+    const exchange: RecordedExchange = {
+      request: { method: request.method, url: keyOf(request.url) },
+      response: { status: 0, headers: {}, duration: 0 },
+    };
+    if (request.headers.get("content-type")?.startsWith("application/json")) {
+      exchange.request.body = await request
+        .clone()
+        .json()
+        .then(redactBody, () => undefined);
+    }
+
+    const start = Date.now();
+    const response = await fetchImpl(request);
+    const contentType = response.headers.get("content-type") ?? "";
+    exchange.response.status = response.status;
+    exchange.response.duration = Date.now() - start;
+    for (const name of RECORDED_HEADERS) {
+      const value = response.headers.get(name);
+      if (value !== null) exchange.response.headers[name] = value;
+    }
+    fixture.exchanges.push(exchange);
+
+    if (!contentType.startsWith("text/event-stream") || !response.body) {
+      const bytes = new Uint8Array(await response.arrayBuffer());
+      if (isText(contentType) || bytes.byteLength === 0) {
+        exchange.response.body = new TextDecoder().decode(bytes);
+      } else {
+        exchange.response.bodyBase64 = Buffer.from(bytes).toString("base64");
+      }
+      await save();
+      return new Response(bytes.byteLength ? bytes : null, {
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers,
+      });
+    }
+
+    // Pass the event stream through, recording each chunk as it arrives
+    const events: { at: number; data: string }[] = [];
+    exchange.response.events = events;
+    const opened = Date.now();
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    const body = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        let result: ReadableStreamReadResult<Uint8Array>;
+        try {
+          result = await reader.read();
+        } catch (e) {
+          await save();
+          throw e;
+        }
+        if (result.done) {
+          await save();
+          controller.close();
+          return;
+        }
+        events.push({
+          at: Date.now() - opened,
+          data: decoder.decode(result.value, { stream: true }),
+        });
+        controller.enqueue(result.value);
+      },
+      async cancel(reason) {
+        await reader.cancel(reason);
+        await save();
+      },
+    });
+    return new Response(body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    });
+  };
+}
+
+function replayFetch(
+  path: string,
+  speed: number,
+  keyOf: (url: string) => string
+): FetchFunction {
+  // Recorded responses per request, served in order; the last one repeats
+  // (e.g. for extra status polls)
+  let loaded: Promise<Map<string, RecordedExchange[]>> | null = null;
+  const load = async () => {
+    const { promises: fs } = await import("node:fs");
+    const fixture = JSON.parse(await fs.readFile(path, "utf8")) as Fixture;
+    const byRequest = new Map<string, RecordedExchange[]>();
+    for (const exchange of fixture.exchanges) {
+      const key = `${exchange.request.method} ${exchange.request.url}`;
+      byRequest.set(key, [...(byRequest.get(key) ?? []), exchange]);
+    }
+    return byRequest;
+  };
+
+  return async (input, init) => {
+    const request = new Request(input, init);
+    loaded ??= load();
+    const byRequest = await loaded;
+    // Consume the body like a real server would
+    if (request.body) await request.arrayBuffer();
+
+    const key = `${request.method} ${keyOf(request.url)}`;
+    const queue = byRequest.get(key);
+    if (!queue?.length) {
+      throw new FlenseError(`No recorded response for ${key} in ${path}`);
+    }
+    const { response } = queue.length > 1 ? queue.shift()! : queue[0]!;
+
+    await sleep(response.duration / speed, request.signal);
+    if (request.signal.aborted) {
+      throw request.signal.reason ?? new DOMException("Aborted", "AbortError");
+    }
+
+    const responseInit: ResponseInit = { status: response.status, headers: response.headers };
+    if (response.events) {
+      const { events } = response;
+      const encoder = new TextEncoder();
+      const opened = Date.now();
+      let next = 0;
+      return new Response(
+        new ReadableStream<Uint8Array>({
+          async pull(controller) {
+            const event = events[next++];
+            if (!event || request.signal.aborted) {
+              controller.close();
+              return;
+            }
+            await sleep(event.at / speed - (Date.now() - opened), request.signal);
+            controller.enqueue(encoder.encode(event.data));
+          },
+        }),
+        responseInit
+      );
+    }
+    if (response.bodyBase64 !== undefined) {
+      return new Response(Buffer.from(response.bodyBase64, "base64"), responseInit);
+    }
+    return new Response(response.body || null, responseInit);
+  };
+}
@@ -32,6 +32,162 @@
  * ```
  */
 
+import { ResultCache, type CacheOptions } from "./cache.js";
+import {
+  runBatch,
+  type BatchInput,
+  type BatchItemResult,
+  type BatchOptions,
+} from "./batch.js";
+import {
+  FlenseAuthError,
+  FlenseError,
+  FlenseInvalidFileError,
+  FlenseJobCancelledError,
+  FlenseJobFailedError,
+  FlenseNetworkError,
+  FlenseTimeoutError,
+  FlenseUploadError,
+  createAPIError,
+} from "./errors.js";
+import {
+  getRetryDelay,
+  isRetryableError,
+  resolveRetryPolicy,
+  type RetryOptions,
+  type RetryPolicy,
+} from "./retry.js";
+import {
+  basename,
+  filenameForMimeType,
+  getFilenameFromUrl,
+  getMimeTypeFromFilename,
+  probeUrl,
+  sniffMimeType,
+} from "./mime.js";
+import { createFixtureFetch, type FixtureOptions } from "./fixtures.js";
+import { JobList, type JobPage, type ListJobsOptions } from "./jobs.js";
+import {
+  Observer,
+  jobTimings,
+  type FlenseEventListener,
+  type FlenseEvents,
+  type FlenseLogger,
+  type LogLevel,
+} from "./observability.js";
+import { formatPageRanges, nextSelectedPage, type PageSelection } from "./pages.js";
+import {
+  createTransport,
+  type FlenseMiddleware,
+  type Transport,
+} from "./transport.js";
+import { openEventStream } from "./sse.js";
+import type { StructuredDocument } from "./structured.js";
+import {
+  countBytes,
+  createChunkSource,
+  createUploadBody,
+  inspectFile,
+  openFile,
+  type FileInput,
+  type UploadBody,
+  type UploadOptions,
+  type UploadProgress,
+} from "./upload.js";
+import { readQuota, type Quota, type QuotaWarningOptions, type Usage } from "./usage.js";
+import {
+  validateFile,
+  type ValidationOptions,
+  type ValidationResult,
+} from "./validation.js";
+
+export type {
+  BatchInput,
+  BatchItemResult,
+  BatchOptions,
+  BatchProgress,
+} from "./batch.js";
+export {
+  FileSystemCacheStore,
+  IndexedDBCacheStore,
+  MemoryCacheStore,
+} from "./cache.js";
+export type {
+  CacheEntry,
+  CacheOptions,
+  CacheStore,
+  FileSystemCacheStoreOptions,
+  IndexedDBCacheStoreOptions,
+  MemoryCacheStoreOptions,
+} from "./cache.js";
+export {
+  FlenseError,
+  FlenseAPIError,
+  FlenseAuthError,
+  FlenseValidationError,
+  FlenseRateLimitError,
+  FlenseQuotaExceededError,
+  FlenseJobFailedError,
+  FlenseJobCancelledError,
+  FlenseTimeoutError,
+  FlenseNetworkError,
+  FlenseInvalidFileError,
+  FlenseUploadError,
+  FlenseWebhookVerificationError,
+} from "./errors.js";
+export type { FlenseAPIErrorDetails } from "./errors.js";
+export type { RetryOptions } from "./retry.js";
+export type { Fixture, FixtureOptions, RecordedExchange } from "./fixtures.js";
+export type { JobList, JobPage, ListJobsOptions } from "./jobs.js";
+export { instrumentOpenTelemetry } from "./otel.js";
+export type {
+  FlenseEventListener,
+  FlenseEvents,
+  FlenseLogger,
+  LogLevel,
+} from "./observability.js";
+export type { OpenTelemetrySpan, OpenTelemetryTracer } from "./otel.js";
+export type { PageSelection } from "./pages.js";
+export type { FlenseMiddleware } from "./transport.js";
+export { createProxyHandler, toNodeListener } from "./proxy.js";
+export type {
+  ProxyHandler,
+  ProxyHandlerOptions,
+  ProxyOperation,
+} from "./proxy.js";
+export { openEventStream } from "./sse.js";
+export type { ServerSentEvent, EventStreamOptions } from "./sse.js";
+export type {
+  BoundingBox,
+  DocumentBlock,
+  DocumentPage,
+  HeadingBlock,
+  ImageBlock,
+  ListBlock,
+  ParagraphBlock,
+  StructuredDocument,
+  TableBlock,
+} from "./structured.js";
+export type { FileInput, UploadOptions, UploadProgress } from "./upload.js";
+export type { Quota, QuotaWarningOptions, Usage } from "./usage.js";
+export type {
+  ValidationIssue,
+  ValidationIssueCode,
+  ValidationOptions,
+  ValidationResult,
+} from "./validation.js";
+export {
+  WEBHOOK_SIGNATURE_HEADER,
+  constructWebhookEvent,
+  signWebhookPayload,
+  verifyWebhookSignature,
+} from "./webhooks.js";
+export type {
+  WebhookEvent,
+  WebhookEventType,
+  WebhookVerifyOptions,
+} from "./webhooks.js";
+
 /**
  * Configuration options for the Flense client.
  */
@@ -47,6 +203,119 @@ export interface FlenseConfig {
    * @default "https://api.flense.dev"
    */
   baseUrl?: string;
+
+  /**
+   * URL of a server-side proxy created with {@link createProxyHandler}.
+   *
+   * When set, requests go to the proxy instead of the Flense API and no API
+   * key is needed or sent, so the key never reaches the browser.
+   * `apiKey` and `baseUrl` are ignored.
+   *
+   * @example "/api/flense"
+   */
+  proxyUrl?: string;
+
+  /**
+   * Automatic retry policy for transient failures (network errors, 408, 429
+   * and 5xx responses), with exponential backoff and jitter.
+   * Pass `false` to disable retries.
+   * @default { maxAttempts: 3, initialDelay: 500, maxDelay: 30000 }
+   */
+  retry?: RetryOptions | false;
+
+  /**
+   * Detect the types of uploaded documents from their content instead of
+   * trusting the filename, and correct the filename's extension to match.
+   * @default true
+   */
+  detectFileTypes?: boolean;
+
+  /**
+   * Fetch the start of each `parseUrl()` document with a range request, to
+   * detect its type from the content and response headers instead of the
+   * URL. The request is made from this client's network, so only enable it
+   * for trusted URLs: on a server, user-supplied URLs could reach internal
+   * hosts or cloud metadata endpoints. Ignored with `proxyUrl`.
+   * @default false
+   */
+  probeUrls?: boolean;
+
+  /**
+   * Validate files before uploading them, rejecting unsupported types, empty
+   * files, encrypted PDFs and files over the configured limits with a
+   * {@link FlenseInvalidFileError}. Pass `false` to skip validation.
+   * @default {} (no size or page limits)
+   */
+  validation?: ValidationOptions | false;
+
+  /**
+   * Cache results on the client, keyed by the file's SHA-256 and the parse
+   * options. A cached file is not uploaded at all. Pass `true` for an
+   * in-memory cache, or options with a persistent store such as
+   * {@link FileSystemCacheStore} or {@link IndexedDBCacheStore}.
+   * Applies to `parseFile()` and `parsePath()` with Blob, buffer or path
+   * inputs, not streams.
+   * @default false
+   */
+  cache?: CacheOptions | boolean;
+
+  /**
+   * `fetch` implementation for all requests, e.g. one that routes through a
+   * corporate proxy, or a stub in tests. Also used for the type detection
+   * request of `parseUrl()`.
+   * @default globalThis.fetch
+   */
+  fetch?: typeof fetch;
+
+  /**
+   * Milliseconds to wait for the response to each API request (per retry
+   * attempt) before failing with a retryable {@link FlenseTimeoutError}.
+   * Counts from sending the request, uploads included, until the response
+   * headers arrive; for SSE subscriptions it only covers connecting.
+   * `parseFileSync()` responds only when parsing is done, so allow for that.
+   * @default no timeout
+   */
+  timeout?: number;
+
+  /**
+   * Headers sent with every API request, e.g. for tracing or routing.
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * Hooks run around every API request, including uploads, `parseFileSync()`
+   * and SSE connections. See {@link FlenseMiddleware}.
+   */
+  middleware?: FlenseMiddleware[];
+
+  /**
+   * Where to write client logs, e.g. `console`. Request URLs, retries,
+   * reconnects and job outcomes are logged; API keys are redacted.
+   * @default no logging
+   */
+  logger?: FlenseLogger;
+
+  /**
+   * Least severe level written to `logger`.
+   * @default "info"
+   */
+  logLevel?: LogLevel;
+
+  /**
+   * Record every HTTP exchange, including SSE streams, to a fixture file,
+   * or replay a recorded file without network access. Node.js only.
+   * See {@link FixtureOptions}.
+   */
+  fixtures?: FixtureOptions;
+
+  /**
+   * Warn when the remaining parse quota drops below a threshold, so running
+   * out of credits does not come as a surprise. The quota is checked after
+   * every job creation and {@link Flense.getUsage} call. The warning is
+   * passed to `onWarning`, emitted as a `quotaWarning` event and logged.
+   * @default no warning
+   */
+  quotaWarning?: QuotaWarningOptions;
 }
 
 /**
@@ -55,6 +324,8 @@ export interface FlenseConfig {
 export interface ParseResult {
   /** The unique job ID for tracking this parse operation */
   jobId: string;
+  /** Parse quota left after creating the job, if reported by the API */
+  quota?: Quota;
 }
 
 /**
@@ -65,6 +336,8 @@ export interface ParseFileResult {
   success: boolean;
   /** The parsed markdown content */
   markdown: string;
+  /** Pages and typed blocks, when `structuredOutput` was requested */
+  structured?: StructuredDocument;
 }
 
 /**
@@ -77,6 +350,18 @@ export interface JobResult {
   markdown: string;
   /** The final job state */
   state: string;
+  /** Pages and typed blocks, when structured output was requested */
+  structured?: StructuredDocument;
+  /** Parse quota left after creating the job, if reported by the API */
+  quota?: Quota;
+}
+
+/**
+ * Result of a job created with {@link ParseJob.withStructuredOutput}.
+ */
+export interface StructuredJobResult extends JobResult {
+  /** Pages and typed blocks: headings, paragraphs, lists, tables and images */
+  structured: StructuredDocument;
 }
 
 /**
@@ -108,6 +393,8 @@ export interface JobStatus {
     content?: string;
     /** Parsed markdown */
     markdown?: string;
+    /** Structured document, when structured output was requested */
+    structured?: StructuredDocument;
     /** Processing time in milliseconds */
     processingTime?: number;
   };
@@ -189,18 +476,128 @@ export interface ParseOptions {
    */
   pageStreaming?: boolean;
 
+  /**
+   * Also return the document as typed pages and blocks (headings,
+   * paragraphs, lists, tables, images) with bounding boxes.
+   * @default false
+   */
+  structuredOutput?: boolean;
+
+  /**
+   * Pages to parse, e.g. `"1-5,12"` (1-indexed, inclusive; `"380-"` runs to
+   * the last page). Other pages are skipped and not billed.
+   * @default all pages
+   */
+  pages?: string;
+
+  /**
+   * OCR, table and image settings for individual page ranges, overriding
+   * the document-wide options. Later entries win where ranges overlap.
+   */
+  pageOptions?: PageRangeOptions[];
+
   /**
    * Enable content-hash-based caching for file parsing.
    * When enabled, identical files with identical options return cached results instantly.
    * @default true
    */
   caching?: boolean;
+
+  /**
+   * URL that receives a signed POST when the job completes, fails or is
+   * cancelled. Lets serverless functions return immediately instead of
+   * polling or holding an SSE connection.
+   */
+  webhookUrl?: string;
+
+  /**
+   * Secret used to sign webhook deliveries. Verify them with
+   * {@link verifyWebhookSignature} or {@link constructWebhookEvent}.
+   */
+  webhookSecret?: string;
+}
+
+/**
+ * Parse options for a range of pages, set with `ParseJob.withPageOptions()`.
+ */
+export interface PageRangeOptions
+  extends Pick<ParseOptions, "ocr" | "tables" | "images"> {
+  /** Pages the options apply to, e.g. `"380-400"` */
+  pages: string;
+}
+
+/**
+ * An event from a parse job, as yielded by `ParseJob.events()`.
+ *
+ * `complete`, `failed` and `cancelled` are terminal: no events follow them.
+ */
+export type JobEvent =
+  | { type: "upload"; upload: UploadProgress }
+  | { type: "status"; status: JobStatus }
+  | { type: "progress"; progress: ProgressUpdate }
+  | { type: "content"; content: ContentChunk }
+  | { type: "complete"; status: JobStatus }
+  | { type: "failed"; status: JobStatus }
+  | { type: "cancelled"; status: JobStatus };
+
+/**
+ * Options accepted by operations that can be aborted.
+ */
+export interface AbortOptions {
+  /** Signal that aborts the operation when triggered */
+  signal?: AbortSignal;
+}
+
+/**
+ * Options for {@link Flense.parseFileSync}.
+ */
+export interface ParseFileSyncOptions extends AbortOptions {
+  /**
+   * Also return the document as typed pages and blocks in `structured`.
+   * @default false
+   */
+  structuredOutput?: boolean;
+}
+
+/**
+ * Options for waiting on a job with {@link Flense.waitForJob} or `ParseJob.wait()`.
+ */
+export interface WaitOptions extends AbortOptions {
+  /**
+   * Give up after this many milliseconds with a {@link FlenseTimeoutError}.
+   * The job itself keeps running.
+   * @default no limit
+   */
+  timeout?: number;
+
+  /**
+   * Delay between the first polls, in milliseconds.
+   * @default 1000
+   */
+  initialInterval?: number;
+
+  /**
+   * Longest delay between polls, in milliseconds.
+   * @default 10000
+   */
+  maxInterval?: number;
+
+  /**
+   * Multiplier applied to the poll interval while the job state is unchanged.
+   * @default 1.5
+   */
+  backoffFactor?: number;
+
+  /** Called with the job status returned by every poll */
+  onPoll?: (status: JobStatus) => void;
 }
 
 /**
  * Callbacks for subscribing to job updates.
  */
 export interface JobSubscriptionCallbacks {
+  /** Called as chunks of a resumable upload are received by the server */
+  onUploadProgress?: (progress: UploadProgress) => void;
   /** Called on any status change */
   onStatus?: (status: JobStatus) => void;
   /** Called when progress updates are received */
@@ -224,71 +621,124 @@ interface QueueJobCreateResponse {
   message?: string;
   cached?: boolean;
   markdown?: string;
+  structured?: StructuredDocument;
 }
 
-interface QueueJobStatusResponse {
-  id: string;
-  state: string;
-  output?: {
-    content?: string;
-    markdown?: string;
-  };
-  error?: string;
+interface RequestOptions extends RequestInit {
+  /**
+   * Sent as the `Idempotency-Key` header. Makes a POST safe to retry, since
+   * the server deduplicates requests carrying the same key.
+   */
+  idempotencyKey?: string;
+
+  /** File upload body, recreated for every attempt (replaces `body`) */
+  upload?: UploadBody;
+}
+
+interface UploadSessionResponse {
+  uploadId: string;
+  /** Bytes received so far */
+  offset: number;
 }
 
 interface FlenseResponse {
   success: boolean;
   markdown: string;
   content?: string;
+  structured?: StructuredDocument;
 }
 
-const MIME_TYPES: Record<string, string> = {
-  pdf: "application/pdf",
-  doc: "application/msword",
-  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
-  xls: "application/vnd.ms-excel",
-  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
-  ppt: "application/vnd.ms-powerpoint",
-  pptx: "application/vnd.openxmlformats-officedocument.presentationml.presentation",
-  png: "image/png",
-  jpg: "image/jpeg",
-  jpeg: "image/jpeg",
-  gif: "image/gif",
-  webp: "image/webp",
-  txt: "text/plain",
-  csv: "text/csv",
-  html: "text/html",
-  xml: "application/xml",
-  json: "application/json",
-};
-
-function getFilenameFromUrl(url: string): string {
-  try {
-    const urlObj = new URL(url);
-    const pathname = urlObj.pathname;
-    const segments = pathname.split("/").filter(Boolean);
-    if (segments.length > 0) {
-      const lastSegment = segments[segments.length - 1];
-      if (lastSegment && lastSegment.includes(".")) {
-        return lastSegment;
-      }
-    }
-  } catch {
-    // Invalid URL, return default
+/** Server-side limit on a single SSE subscription, in milliseconds. */
+const SUBSCRIPTION_TIMEOUT = 5 * 60 * 1000;
+
+function generateDocumentId(): string {
+  return `doc_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+}
+
+function generateIdempotencyKey(): string {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID();
   }
-  return "document";
+  return `idem_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
 }
 
-function getMimeTypeFromFilename(filename: string): string {
-  const ext = filename.split(".").pop()?.toLowerCase();
-  if (ext && MIME_TYPES[ext]) {
-    return MIME_TYPES[ext];
+/**
+ * Convert a terminal job status into a result.
+ * Returns null while the job is still queued or running.
+ */
+function resultFromStatus(status: JobStatus): JobResult | null {
+  const markdown = status.output?.markdown || status.output?.content;
+
+  switch (status.state) {
+    case "completed":
+      return {
+        success: true,
+        markdown: markdown || "",
+        state: status.state,
+        ...(status.output?.structured && { structured: status.output.structured }),
+      };
+    case "failed":
+      throw new FlenseJobFailedError(status);
+    case "cancelled":
+      throw new FlenseJobCancelledError(status);
+    case "archived":
+      // Archived jobs may still carry their output
+      if (markdown !== undefined) {
+        return {
+          success: true,
+          markdown,
+          state: status.state,
+          ...(status.output?.structured && { structured: status.output.structured }),
+        };
+      }
+      throw new FlenseError(
+        `Job ${status.id} was archived and its result is no longer available`
+      );
+    default:
+      return null;
   }
-  return "application/octet-stream";
 }
 
-function generateDocumentId(): string {
-  return `doc_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+function abortReason(signal: AbortSignal): unknown {
+  return (
+    signal.reason ?? new DOMException("The operation was aborted", "AbortError")
+  );
+}
+
+function withAbort<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(abortReason(signal));
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(abortReason(signal));
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener("abort", onAbort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener("abort", onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+/** Chunk size for resumable uploads. */
+const DEFAULT_CHUNK_SIZE = 8 * 1024 * 1024;
+
+/** Consecutive failed chunk attempts before a resumable upload gives up. */
+const DEFAULT_UPLOAD_RETRIES = 10;
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  return withAbort(
+    new Promise<void>((resolve) => {
+      timer = setTimeout(resolve, ms);
+    }),
+    signal
+  ).finally(() => clearTimeout(timer));
 }
 
 /**
@@ -327,10 +777,18 @@ function generateDocumentId(): string {
  *   .wait();
  * ```
  */
-export class ParseJob implements PromiseLike<ParseResult> {
+export class ParseJob<TResult extends JobResult = JobResult>
+  implements PromiseLike<ParseResult>
+{
   private jobIdPromise: Promise<string> | null = null;
   private _jobId: string | null = null;
-  private _cachedResult: JobResult | null = null;
+  private _quota: Quota | null = null;
+  // Known without polling: a cached result, or a job that had already finished
+  private _finalStatus: JobStatus | null = null;
+  private _cancelled = false;
+  private _resultStored = false;
+  private createController = new AbortController();
+  private uploadListeners = new Set<(progress: UploadProgress) => void>();
   // Default: all features OFF for fastest processing, caching ON
   private _options: ParseOptions = {
     ocr: false,
@@ -343,10 +801,17 @@ export class ParseJob implements PromiseLike<ParseResult> {
   constructor(
     private createJob: (
       options: ParseOptions,
-      setCachedResult: (result: JobResult) => void
-    ) => Promise<string>,
-    private client: Flense
-  ) {}
+      settle: (status: JobStatus) => void,
+      signal: AbortSignal,
+      onUploadProgress: (progress: UploadProgress) => void
+    ) => Promise<ParseResult>,
+    private client: Flense,
+    private onResult?: (result: JobResult) => Promise<void>,
+    // Known up front for handles attached to an existing job
+    jobId?: string
+  ) {
+    this._jobId = jobId ?? null;
+  }
 
   /**
    * Enable OCR (Optical Character Recognition).
@@ -430,6 +895,108 @@ export class ParseJob implements PromiseLike<ParseResult> {
     return this;
   }
 
+  /**
+   * Parse only some pages of the document.
+   *
+   * Skipped pages are not processed or billed. Markdown, page events and
+   * structured output keep the original page numbers.
+   *
+   * @param pages - Ranges such as `"1-5,12"` or `"380-"`, or page numbers
+   * @returns this for chaining
+   * @throws {@link FlenseError} if a range is malformed
+   *
+   * @example
+   * ```typescript
+   * // Read the summary of a long contract
+   * flense.parseFile(file, 'contract.pdf').withPages('1-3').wait();
+   * ```
+   */
+  withPages(pages: PageSelection): this {
+    this._options.pages = formatPageRanges(pages);
+    return this;
+  }
+
+  /**
+   * Override OCR, table or image settings for a range of pages.
+   *
+   * Can be called several times; later calls win where ranges overlap.
+   *
+   * @param pages - Ranges such as `"380-400"`, or page numbers
+   * @param options - Settings for those pages
+   * @returns this for chaining
+   * @throws {@link FlenseError} if a range is malformed
+   *
+   * @example
+   * ```typescript
+   * // OCR only the scanned appendix
+   * flense.parseFile(file, 'contract.pdf')
+   *   .withTables()
+   *   .withPageOptions('380-', { ocr: true })
+   *   .wait();
+   * ```
+   */
+  withPageOptions(
+    pages: PageSelection,
+    options: Omit<PageRangeOptions, "pages">
+  ): this {
+    this._options.pageOptions = [
+      ...(this._options.pageOptions ?? []),
+      { ...options, pages: formatPageRanges(pages) },
+    ];
+    return this;
+  }
+
+  /**
+   * Also return the document as typed pages and blocks.
+   *
+   * The result's `structured` field holds each page's headings, paragraphs,
+   * lists, tables (as row/column arrays) and images, with bounding boxes.
+   * The markdown is still returned.
+   *
+   * @returns this, typed so that {@link wait} resolves to a {@link StructuredJobResult}
+   *
+   * @example
+   * ```typescript
+   * const { structured } = await flense.parseFile(file, 'invoice.pdf')
+   *   .withTables()
+   *   .withStructuredOutput()
+   *   .wait();
+   *
+   * const tables = structured.pages
+   *   .flatMap((page) => page.blocks)
+   *   .filter((block) => block.type === 'table');
+   * ```
+   */
+  withStructuredOutput(): ParseJob<StructuredJobResult> {
+    this._options.structuredOutput = true;
+    return this as unknown as ParseJob<StructuredJobResult>;
+  }
+
+  /**
+   * Deliver the result to a webhook instead of (or as well as) polling.
+   *
+   * When the job completes, fails or is cancelled, Flense POSTs a
+   * {@link WebhookEvent} to `url`, signed with `secret` in the
+   * `Flense-Signature` header.
+   *
+   * @param url - HTTPS endpoint that receives the event
+   * @param secret - Shared secret for signing deliveries (recommended)
+   * @returns this for chaining
+   *
+   * @example
+   * ```typescript
+   * const { jobId } = await flense
+   *   .parseFile(file, 'scan.pdf')
+   *   .withOCR()
+   *   .withWebhook('https://example.com/hooks/flense', process.env.FLENSE_WEBHOOK_SECRET);
+   * ```
+   */
+  withWebhook(url: string, secret?: string): this {
+    this._options.webhookUrl = url;
+    this._options.webhookSecret = secret;
+    return this;
+  }
+
   /**
    * Disable content-hash-based caching for this parse job.
    *
@@ -449,6 +1016,38 @@ export class ParseJob implements PromiseLike<ParseResult> {
     return this;
   }
 
+  /**
+   * Apply several parse options at once.
+   *
+   * Equivalent to calling the individual fluent methods; options that are
+   * `undefined` are left unchanged.
+   *
+   * @param options - Parse options to apply
+   * @returns this for chaining
+   * @throws {@link FlenseError} if a page range is malformed
+   *
+   * @example
+   * ```typescript
+   * flense.parseFile(file, 'doc.pdf').withOptions({ ocr: true, tables: true }).wait();
+   * ```
+   */
+  withOptions(options: ParseOptions): this {
+    const defined = Object.entries(options).filter(
+      ([, value]) => value !== undefined
+    );
+    Object.assign(this._options, Object.fromEntries(defined));
+    if (options.pages !== undefined) {
+      this._options.pages = formatPageRanges(options.pages);
+    }
+    if (options.pageOptions !== undefined) {
+      this._options.pageOptions = options.pageOptions.map((entry) => ({
+        ...entry,
+        pages: formatPageRanges(entry.pages),
+      }));
+    }
+    return this;
+  }
+
   /**
    * Get the current parse options.
    */
@@ -460,10 +1059,15 @@ export class ParseJob implements PromiseLike<ParseResult> {
     if (!this.jobIdPromise) {
       this.jobIdPromise = this.createJob(
         this._options,
-        (result) => { this._cachedResult = result; }
-      ).then((id) => {
-        this._jobId = id;
-        return id;
+        (status) => { this._finalStatus = status; },
+        this.createController.signal,
+        (progress) => {
+          for (const listener of this.uploadListeners) listener(progress);
+        }
+      ).then(({ jobId, quota }) => {
+        this._jobId = jobId;
+        this._quota = quota ?? null;
+        return jobId;
       });
     }
     return this.jobIdPromise;
@@ -471,12 +1075,21 @@ export class ParseJob implements PromiseLike<ParseResult> {
 
   /**
    * Get the job ID (available after job is created).
-   * Returns null until the job creation request completes.
+   * Returns null until the job creation request completes; handles from
+   * {@link Flense.job} have it from the start.
    */
   get jobId(): string | null {
     return this._jobId;
   }
 
+  /**
+   * Parse quota left after creating the job, if reported by the API.
+   * Returns null until the job creation request completes.
+   */
+  get quota(): Quota | null {
+    return this._quota;
+  }
+
   then<TResult1 = ParseResult, TResult2 = never>(
     onFulfilled?:
       | ((value: ParseResult) => TResult1 | PromiseLike<TResult1>)
@@ -484,7 +1097,7 @@ export class ParseJob implements PromiseLike<ParseResult> {
     onRejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
   ): Promise<TResult1 | TResult2> {
     return this.getJobId()
-      .then((jobId) => ({ jobId }))
+      .then((jobId) => ({ jobId, ...(this._quota && { quota: this._quota }) }))
       .then(onFulfilled, onRejected);
   }
 
@@ -494,24 +1107,47 @@ export class ParseJob implements PromiseLike<ParseResult> {
    * Uses polling to check job status. For real-time updates with progress
    * information, use {@link subscribe} instead.
    *
+   * @param options - Polling, timeout and abort options (see {@link WaitOptions})
    * @returns Promise that resolves with the job result when complete
-   * @throws Error if the job fails
+   * @throws {@link FlenseJobFailedError} if the job fails
+   * @throws {@link FlenseJobCancelledError} if the job is cancelled
+   * @throws {@link FlenseTimeoutError} if `timeout` elapses first
    *
    * @example
    * ```typescript
    * const result = await flense.parseFile(file, 'doc.pdf').wait();
    * console.log(result.markdown);
    * ```
+   *
+   * @example Stop waiting after 30 seconds
+   * ```typescript
+   * const result = await job.wait({ timeout: 30_000 });
+   * ```
    */
-  wait(): Promise<JobResult> {
-    return this.getJobId().then(() => {
-      if (this._cachedResult) {
-        return this._cachedResult;
+  wait(options: WaitOptions = {}): Promise<TResult> {
+    return withAbort(this.getJobId(), options.signal).then(async () => {
+      let result = this._finalStatus && resultFromStatus(this._finalStatus);
+      if (!result) {
+        result = await this.client.waitForJob(this._jobId!, options);
+        await this.storeResult(result);
+      }
+      if (this._options.structuredOutput && !result.structured) {
+        throw new FlenseError(`Job ${this._jobId} returned no structured output`);
       }
-      return this.client.waitForJob(this._jobId!);
+      if (this._quota) result = { ...result, quota: this._quota };
+      return result as TResult;
     });
   }
 
+  // Hand a finished result to `onResult` (the result cache) once per job.
+  // Completion events don't always carry the output, so results without
+  // markdown are skipped rather than stored empty.
+  private async storeResult(result: JobResult): Promise<void> {
+    if (!this.onResult || this._resultStored || !result.markdown) return;
+    this._resultStored = true;
+    await this.onResult(result);
+  }
+
   /**
    * Subscribe to real-time job updates via Server-Sent Events.
    *
@@ -519,6 +1155,7 @@ export class ParseJob implements PromiseLike<ParseResult> {
    * progress updates and page content as they become available.
    *
    * @param callbacks - Callback functions for different event types
+   * @param options - Optional `signal` that closes the connection when aborted
    * @returns Unsubscribe function to close the connection
    *
    * @example
@@ -547,66 +1184,342 @@ export class ParseJob implements PromiseLike<ParseResult> {
    * unsubscribe();
    * ```
    */
-  subscribe(callbacks: JobSubscriptionCallbacks): () => void {
+  subscribe(
+    callbacks: JobSubscriptionCallbacks,
+    options: AbortOptions = {}
+  ): () => void {
     let unsubscribe: (() => void) | null = null;
     let cancelled = false;
 
+    const { signal } = options;
+    if (signal?.aborted) return () => {};
+
+    const onUploadProgress = (progress: UploadProgress) =>
+      callbacks.onUploadProgress?.(progress);
+    this.uploadListeners.add(onUploadProgress);
+
+    const close = () => {
+      cancelled = true;
+      signal?.removeEventListener("abort", close);
+      this.uploadListeners.delete(onUploadProgress);
+      unsubscribe?.();
+    };
+    signal?.addEventListener("abort", close, { once: true });
+
     this.getJobId().then((jobId) => {
       if (cancelled) return;
 
-      // For cached results, fire onComplete immediately
-      if (this._cachedResult) {
-        const syntheticStatus: JobStatus = {
-          id: jobId,
-          state: "completed",
-          output: { markdown: this._cachedResult.markdown },
-        };
-        callbacks.onStatus?.(syntheticStatus);
-        callbacks.onComplete?.(syntheticStatus);
+      // For cached results and finished jobs, report the outcome immediately
+      if (this._finalStatus) {
+        const status: JobStatus = { ...this._finalStatus, id: jobId };
+        callbacks.onStatus?.(status);
+        if (status.state === "failed") {
+          callbacks.onFailed?.(status);
+        } else if (status.state !== "cancelled") {
+          callbacks.onComplete?.(status);
+        }
         return;
       }
 
-      unsubscribe = this.client.subscribeToJob(jobId, callbacks);
+      unsubscribe = this.client.subscribeToJob(
+        jobId,
+        this.onResult
+          ? {
+              ...callbacks,
+              onComplete: (status) => {
+                void this.storeResult(resultFromStatus(status)!);
+                callbacks.onComplete?.(status);
+              },
+            }
+          : callbacks,
+        options
+      );
+    }, (error: unknown) => {
+      // Creation aborted by cancel() is not an error for subscribers
+      if (cancelled || this._cancelled) return;
+      callbacks.onError?.(
+        error instanceof Error ? error : new Error(String(error))
+      );
     });
 
-    return () => {
-      cancelled = true;
-      unsubscribe?.();
-    };
+    return close;
   }
-}
-
-/**
- * Flense API client for parsing documents into markdown.
- *
- * @example Basic usage
- * ```typescript
- * import { Flense } from 'flense';
- *
- * const flense = new Flense({ apiKey: 'flense_...' });
- *
- * // Parse a URL
- * const result = await flense.parseUrl('https://example.com/doc.pdf').wait();
- * console.log(result.markdown);
- * ```
- *
- * @example Using environment variable
- * ```typescript
- * // Set FLENSE_API_KEY environment variable
- * const flense = new Flense();
- * ```
- */
-export class Flense {
-  private apiKey: string;
-  private baseUrl: string;
 
   /**
-   * Create a new Flense client.
+   * Cancel this parse job.
    *
-   * @param config - Configuration options
-   * @throws Error if no API key is provided or found in environment
+   * If the job has not been created yet, the in-flight upload or creation
+   * request is aborted. Otherwise the server-side job is cancelled via
+   * {@link Flense.cancelJob}. Cached results and jobs that had already
+   * finished have nothing to cancel.
    *
-   * @example With explicit API key
+   * Subscribers receive a `cancelled` status once the server confirms, and
+   * pending {@link wait} calls reject.
+   *
+   * @returns Promise that resolves once the cancellation has been sent
+   *
+   * @example
+   * ```typescript
+   * const job = flense.parseFile(file, 'large.pdf');
+   * job.subscribe({ onProgress: (p) => console.log(p.progress) });
+   *
+   * // User closed the dialog
+   * await job.cancel();
+   * ```
+   */
+  async cancel(): Promise<void> {
+    this._cancelled = true;
+
+    if (this._jobId === null) {
+      this.createController.abort();
+      if (!this.jobIdPromise) return;
+      try {
+        // The job may have been created before the abort took effect
+        await this.jobIdPromise;
+      } catch {
+        return;
+      }
+    }
+
+    if (this._finalStatus || this._jobId === null) return;
+    await this.client.cancelJob(this._jobId);
+  }
+
+  /**
+   * Whether {@link cancel} has been called on this job.
+   */
+  get cancelled(): boolean {
+    return this._cancelled;
+  }
+
+  /**
+   * Iterate over job events as they arrive.
+   *
+   * Built on {@link subscribe}. Iteration ends after the terminal
+   * `complete`, `failed` or `cancelled` event; connection errors are thrown
+   * from the loop. Breaking out of the loop closes the connection.
+   *
+   * @param options - Optional `signal` that stops iteration when aborted
+   * @returns Async iterator of {@link JobEvent}s
+   *
+   * @example
+   * ```typescript
+   * for await (const event of flense.parseFile(file, 'doc.pdf').events()) {
+   *   switch (event.type) {
+   *     case 'progress':
+   *       console.log(`${event.progress.progress}%`);
+   *       break;
+   *     case 'content':
+   *       console.log(`Page ${event.content.page} ready`);
+   *       break;
+   *     case 'complete':
+   *       console.log(event.status.output?.markdown);
+   *       break;
+   *   }
+   * }
+   * ```
+   */
+  async *events(
+    options: AbortOptions = {}
+  ): AsyncGenerator<JobEvent, void, undefined> {
+    const queue: JobEvent[] = [];
+    // Assigned from callbacks, so declared via `as` to avoid narrowing to null
+    let failure = null as { error: unknown } | null;
+    let wake = null as (() => void) | null;
+
+    const push = (event: JobEvent) => {
+      queue.push(event);
+      wake?.();
+    };
+    const fail = (error: unknown) => {
+      failure ??= { error };
+      wake?.();
+    };
+
+    const { signal } = options;
+    const onAbort = () => fail(abortReason(signal!));
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    const unsubscribe = this.subscribe(
+      {
+        onUploadProgress: (upload) => push({ type: "upload", upload }),
+        onStatus: (status) => {
+          push({ type: "status", status });
+          if (status.state === "cancelled") push({ type: "cancelled", status });
+        },
+        onProgress: (progress) => push({ type: "progress", progress }),
+        onContent: (content) => push({ type: "content", content }),
+        onComplete: (status) => push({ type: "complete", status }),
+        onFailed: (status) => push({ type: "failed", status }),
+        onError: fail,
+      },
+      options
+    );
+
+    try {
+      while (true) {
+        const event = queue.shift();
+        if (event) {
+          yield event;
+          if (
+            event.type === "complete" ||
+            event.type === "failed" ||
+            event.type === "cancelled"
+          ) {
+            return;
+          }
+          continue;
+        }
+        if (failure) throw failure.error;
+        await new Promise<void>((resolve) => {
+          wake = resolve;
+        });
+        wake = null;
+      }
+    } finally {
+      signal?.removeEventListener("abort", onAbort);
+      unsubscribe();
+    }
+  }
+
+  /**
+   * Stream the parsed markdown as a Web `ReadableStream<string>`.
+   *
+   * With page streaming enabled, each page is emitted as soon as it and all
+   * earlier pages are ready, so output is always in page order; with
+   * {@link withPages}, only the selected pages are waited for. Pages are
+   * separated by a blank line. Without page streaming, the full markdown is
+   * emitted once the job completes. The stream errors with
+   * {@link FlenseJobFailedError} or {@link FlenseJobCancelledError} if the
+   * job does not complete.
+   *
+   * @returns Stream of markdown text
+   *
+   * @example Stream straight into an HTTP response
+   * ```typescript
+   * const job = flense.parseFile(file, 'doc.pdf').withPageStreaming();
+   * return new Response(job.markdownStream().pipeThrough(new TextEncoderStream()), {
+   *   headers: { 'Content-Type': 'text/markdown; charset=utf-8' },
+   * });
+   * ```
+   */
+  markdownStream(): ReadableStream<string> {
+    const iterator = this.events();
+    const pending = new Map<number, string>();
+    const selection = this._options.pages;
+    const following = (page: number) =>
+      selection ? nextSelectedPage(selection, page) : page + 1;
+    let nextPage = following(0);
+    let emitted = false;
+
+    return new ReadableStream<string>({
+      async pull(controller) {
+        const emit = (content: string) => {
+          controller.enqueue(emitted ? `\n\n${content}` : content);
+          emitted = true;
+        };
+
+        while (true) {
+          const { done, value: event } = await iterator.next();
+          if (done) {
+            controller.close();
+            return;
+          }
+
+          switch (event.type) {
+            case "content": {
+              pending.set(event.content.page, event.content.content);
+              let flushed = false;
+              while (nextPage !== null && pending.has(nextPage)) {
+                emit(pending.get(nextPage)!);
+                pending.delete(nextPage);
+                nextPage = following(nextPage);
+                flushed = true;
+              }
+              if (flushed) return;
+              break;
+            }
+            case "complete": {
+              if (emitted || pending.size > 0) {
+                // Flush pages that arrived out of sequence (e.g. gaps)
+                for (const page of [...pending.keys()].sort((a, b) => a - b)) {
+                  emit(pending.get(page)!);
+                }
+              } else {
+                const output = event.status.output;
+                emit(output?.markdown || output?.content || "");
+              }
+              controller.close();
+              return;
+            }
+            case "failed":
+              controller.error(new FlenseJobFailedError(event.status));
+              return;
+            case "cancelled":
+              controller.error(new FlenseJobCancelledError(event.status));
+              return;
+          }
+        }
+      },
+      async cancel() {
+        await iterator.return(undefined);
+      },
+    });
+  }
+
+  /**
+   * Alias of {@link markdownStream}, for code that expects a
+   * `toReadableStream()` method.
+   *
+   * @returns Stream of markdown text in page order
+   */
+  toReadableStream(): ReadableStream<string> {
+    return this.markdownStream();
+  }
+}
+
+/**
+ * Flense API client for parsing documents into markdown.
+ *
+ * @example Basic usage
+ * ```typescript
+ * import { Flense } from 'flense';
+ *
+ * const flense = new Flense({ apiKey: 'flense_...' });
+ *
+ * // Parse a URL
+ * const result = await flense.parseUrl('https://example.com/doc.pdf').wait();
+ * console.log(result.markdown);
+ * ```
+ *
+ * @example Using environment variable
+ * ```typescript
+ * // Set FLENSE_API_KEY environment variable
+ * const flense = new Flense();
+ * ```
+ */
+export class Flense {
+  private apiKey: string | null;
+  private baseUrl: string;
+  private retryPolicy: RetryPolicy;
+  private detectFileTypes: boolean;
+  private probeUrls: boolean;
+  private validation: ValidationOptions | null;
+  private cache: ResultCache | null;
+  private fetch: typeof fetch;
+  private transport: Transport;
+  private observer: Observer;
+  private quotaWarning: QuotaWarningOptions | null;
+  private quotaLow = false;
+
+  /**
+   * Create a new Flense client.
+   *
+   * @param config - Configuration options
+   * @throws {@link FlenseAuthError} if no API key is provided or found in
+   *   environment (not required when `proxyUrl` is set)
+   *
+   * @example With explicit API key
    * ```typescript
    * const flense = new Flense({ apiKey: 'flense_abc123...' });
    * ```
@@ -624,16 +1537,58 @@ export class Flense {
    *   baseUrl: 'https://api.staging.flense.dev',
    * });
    * ```
+   *
+   * @example In the browser, through your own server-side proxy
+   * ```typescript
+   * const flense = new Flense({ proxyUrl: '/api/flense' });
+   * ```
+   *
+   * @example With a timeout, tracing headers and a custom fetch
+   * ```typescript
+   * const flense = new Flense({
+   *   timeout: 60_000,
+   *   headers: { 'X-Team': 'ingest' },
+   *   fetch: (input, init) => undiciFetch(input, { ...init, dispatcher: proxyAgent }),
+   * });
+   * ```
    */
   constructor(config?: FlenseConfig) {
-    const apiKey = config?.apiKey ?? process.env.FLENSE_API_KEY;
-    if (!apiKey) {
-      throw new Error(
-        "Missing API key. Provide it via config.apiKey or set FLENSE_API_KEY environment variable."
-      );
+    this.retryPolicy = resolveRetryPolicy(config?.retry);
+    this.detectFileTypes = config?.detectFileTypes ?? true;
+    this.probeUrls = config?.probeUrls ?? false;
+    this.validation =
+      config?.validation === false ? null : (config?.validation ?? {});
+    this.cache = ResultCache.from(config?.cache);
+    this.quotaWarning = config?.quotaWarning ?? null;
+
+    if (config?.proxyUrl) {
+      this.apiKey = null;
+      this.baseUrl = config.proxyUrl.replace(/\/+$/, "");
+    } else {
+      const apiKey = config?.apiKey ?? process.env.FLENSE_API_KEY;
+      if (!apiKey) {
+        throw new FlenseAuthError(
+          "Missing API key. Provide it via config.apiKey or set FLENSE_API_KEY environment variable.",
+          { status: 401 }
+        );
+      }
+      this.apiKey = apiKey;
+      this.baseUrl = config?.baseUrl ?? "https://api.flense.dev";
     }
-    this.apiKey = apiKey;
-    this.baseUrl = config?.baseUrl ?? "https://api.flense.dev";
+
+    const fetchImpl: typeof fetch =
+      config?.fetch ?? ((...args) => globalThis.fetch(...args));
+    this.fetch = config?.fixtures
+      ? createFixtureFetch(fetchImpl, config.fixtures, this.baseUrl)
+      : fetchImpl;
+    this.observer = new Observer(config?.logger ?? null, config?.logLevel);
+    this.transport = createTransport({
+      fetch: this.fetch,
+      timeout: config?.timeout,
+      headers: config?.headers,
+      // Innermost, so requests are observed as they are actually sent
+      middleware: [...(config?.middleware ?? []), this.observer.middleware()],
+    });
   }
 
   /**
@@ -644,30 +1599,152 @@ export class Flense {
   }
 
   /**
-   * Get the API key for this client.
+   * Get the API key for this client, or null when using a proxy.
    */
-  getApiKey(): string {
+  getApiKey(): string | null {
     return this.apiKey;
   }
 
+  /**
+   * Listen to client events, e.g. to record upload, queue and processing
+   * times. See {@link FlenseEvents} for the events and their payloads.
+   *
+   * Listeners are called synchronously; errors they throw are logged and
+   * otherwise ignored.
+   *
+   * @param event - Event name
+   * @param listener - Called with the event payload
+   * @returns Function that removes the listener
+   *
+   * @example
+   * ```typescript
+   * flense.on('upload', ({ filename, bytes, duration }) => {
+   *   console.log(`Uploaded ${filename}: ${bytes} bytes in ${duration}ms`);
+   * });
+   * flense.on('jobCompleted', ({ jobId, queueTime, processingTime }) => {
+   *   console.log(`${jobId}: queued ${queueTime}ms, processed ${processingTime}ms`);
+   * });
+   * ```
+   */
+  on<K extends keyof FlenseEvents>(
+    event: K,
+    listener: FlenseEventListener<K>
+  ): () => void {
+    this.observer.on(event, listener);
+    return () => this.observer.off(event, listener);
+  }
+
+  /**
+   * Remove a listener added with {@link on}.
+   *
+   * @param event - Event name
+   * @param listener - The listener to remove
+   */
+  off<K extends keyof FlenseEvents>(
+    event: K,
+    listener: FlenseEventListener<K>
+  ): void {
+    this.observer.off(event, listener);
+  }
+
+  /**
+   * Log and emit `jobCompleted` if `status` is final.
+   *
+   * @returns Whether the job has finished
+   */
+  private reportFinished(status: JobStatus): boolean {
+    if (
+      status.state !== "completed" &&
+      status.state !== "failed" &&
+      status.state !== "cancelled"
+    ) {
+      return false;
+    }
+    const { queueTime, processingTime } = jobTimings(status);
+    this.observer.emit("jobCompleted", {
+      jobId: status.id,
+      state: status.state,
+      queueTime,
+      processingTime,
+      status,
+    });
+    this.observer.log(
+      status.state === "failed" ? "warn" : "info",
+      `Job ${status.id} ${status.state}`,
+      { queueTime, processingTime, ...(status.error && { error: status.error }) }
+    );
+    return true;
+  }
+
+  private authHeaders(): Record<string, string> {
+    return this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {};
+  }
+
   private async request<T>(
     endpoint: string,
-    options: RequestInit = {}
+    options: RequestOptions = {}
   ): Promise<T> {
+    const { idempotencyKey, upload, ...init } = options;
+    const method = (init.method ?? "GET").toUpperCase();
+    // Only repeat requests the server can safely see twice, with a body
+    // that can be sent again
+    const canRetry =
+      (method === "GET" || idempotencyKey !== undefined) &&
+      (upload?.replayable ?? true);
+    const maxAttempts = canRetry ? this.retryPolicy.maxAttempts : 1;
+
+    const headers: Record<string, string> = {
+      ...(init.headers as Record<string, string> | undefined),
+      ...upload?.headers,
+    };
+    if (idempotencyKey !== undefined) {
+      headers["Idempotency-Key"] = idempotencyKey;
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const body = upload ? upload.create() : init.body;
+        return await this.send<T>(endpoint, { ...init, headers, body });
+      } catch (error) {
+        if (
+          attempt >= maxAttempts ||
+          init.signal?.aborted ||
+          !isRetryableError(error, this.retryPolicy)
+        ) {
+          throw error;
+        }
+        const delay = getRetryDelay(error, attempt, this.retryPolicy);
+        this.observer.log(
+          "warn",
+          `Retrying ${method} ${endpoint} in ${Math.round(delay)}ms (attempt ${attempt + 1} of ${maxAttempts})`,
+          { error }
+        );
+        await sleep(delay, init.signal ?? undefined);
+      }
+    }
+  }
+
+  private async send<T>(endpoint: string, options: RequestInit): Promise<T> {
     const url = `${this.baseUrl}${endpoint}`;
     const headers: HeadersInit = {
-      Authorization: `Bearer ${this.apiKey}`,
+      ...this.authHeaders(),
       ...options.headers,
     };
 
-    const response = await fetch(url, {
-      ...options,
-      headers,
-    });
+    let response: Response;
+    try {
+      response = await this.transport(url, { ...options, headers });
+    } catch (e) {
+      if (options.signal?.aborted || e instanceof FlenseTimeoutError) throw e;
+      throw new FlenseNetworkError(
+        `Failed to reach Flense API: ${e instanceof Error ? e.message : e}`,
+        { cause: e }
+      );
+    }
 
     if (!response.ok) {
       const errorText = await response.text();
-      throw new Error(`Flense API error (${response.status}): ${errorText}`);
+      throw createAPIError(response, errorText);
     }
 
     return response.json() as Promise<T>;
@@ -706,9 +1783,18 @@ export class Flense {
    * ```
    */
   parseUrl(url: string): ParseJob {
-    const createJob = async (options: ParseOptions, _setCachedResult: (result: JobResult) => void): Promise<string> => {
-      const filename = getFilenameFromUrl(url);
-      const mimeType = getMimeTypeFromFilename(filename);
+    const createJob = async (
+      options: ParseOptions,
+      _settle: (status: JobStatus) => void,
+      signal: AbortSignal
+    ): Promise<ParseResult> => {
+      const start = Date.now();
+      let filename = getFilenameFromUrl(url);
+      let mimeType = getMimeTypeFromFilename(filename);
+      // No API key means a proxy client, typically a browser blocked by CORS
+      if (this.probeUrls && this.apiKey !== null) {
+        ({ filename, mimeType } = await probeUrl(url, signal, this.fetch));
+      }
       const documentId = generateDocumentId();
 
       const response = await this.request<QueueJobCreateResponse>(
@@ -728,12 +1814,20 @@ export class Flense {
               tables: options.tables,
               images: options.images,
               pageStreaming: options.pageStreaming,
+              structuredOutput: options.structuredOutput,
+              pages: options.pages,
+              pageOptions: options.pageOptions,
+              webhookUrl: options.webhookUrl,
+              webhookSecret: options.webhookSecret,
             },
           }),
+          signal,
+          idempotencyKey: generateIdempotencyKey(),
         }
       );
 
-      return response.jobId!;
+      this.reportCreated(response.jobId!, url, start);
+      return { jobId: response.jobId!, ...this.trackQuota(response) };
     };
 
     return new ParseJob(createJob, this);
@@ -746,9 +1840,13 @@ export class Flense {
    * For large files, use `.subscribe()` to get real-time progress updates
    * and page-by-page content as it's processed.
    *
-   * @param file - The file to parse (Buffer, File, or Blob)
+   * @param file - The file to parse (Buffer, File, Blob, Web `ReadableStream`
+   *   or Node.js `Readable`). Streams are uploaded without buffering.
    * @param filename - Name of the file (used for MIME type detection)
-   * @returns A ParseJob for tracking the parse operation
+   * @param upload - Resumable upload options (see {@link UploadOptions})
+   * @returns A ParseJob for tracking the parse operation. Files failing
+   *   validation (see {@link validate}) reject with {@link FlenseInvalidFileError}
+   *   before anything is uploaded.
    *
    * @example Simple usage - wait for complete result
    * ```typescript
@@ -782,55 +1880,403 @@ export class Flense {
    *   },
    * });
    * ```
+   *
+   * @example Resumable upload over an unreliable connection
+   * ```typescript
+   * const job = flense.parseFile(file, 'scan.pdf', { resumable: true });
+   * job.subscribe({
+   *   onUploadProgress: ({ progress }) => console.log(`Uploaded ${progress?.toFixed(0)}%`),
+   * });
+   * ```
+   */
+  parseFile(
+    file: FileInput,
+    filename: string,
+    upload: UploadOptions = {}
+  ): ParseJob {
+    return this.createFileJob(async () => file, filename, upload);
+  }
+
+  /**
+   * Parse a local file by path (Node.js only).
+   *
+   * The file is streamed from disk during upload instead of being read into
+   * memory, so very large documents can be parsed without running out of
+   * memory. The filename and MIME type are inferred from the path.
+   *
+   * @param filePath - Path to the file
+   * @param options - Upload options, and `filename` to send instead of the
+   *   path's base name
+   * @returns A ParseJob for tracking the parse operation
+   *
+   * @example
+   * ```typescript
+   * const result = await flense.parsePath('./archive/scan-2019.pdf').withOCR().wait();
+   * ```
    */
-  parseFile(file: Buffer | File | Blob, filename: string): ParseJob {
+  parsePath(
+    filePath: string,
+    options: UploadOptions & { filename?: string } = {}
+  ): ParseJob {
+    const { filename = basename(filePath), ...upload } = options;
+    return this.createFileJob(() => openFile(filePath), filename, upload);
+  }
+
+  private createFileJob(
+    getFile: () => Promise<FileInput>,
+    filename: string,
+    upload: UploadOptions
+  ): ParseJob {
+    let cacheKey: string | null = null;
+
     const createJob = async (
       options: ParseOptions,
-      setCachedResult: (result: JobResult) => void
-    ): Promise<string> => {
-      const formData = new FormData();
-
-      if (typeof Buffer !== "undefined" && Buffer.isBuffer(file)) {
-        const uint8Array = new Uint8Array(file);
-        const blob = new Blob([uint8Array], {
-          type: getMimeTypeFromFilename(filename),
-        });
-        formData.append("file", blob, filename);
-      } else {
-        formData.append("file", file as Blob, filename);
+      settle: (status: JobStatus) => void,
+      signal: AbortSignal,
+      onUploadProgress: (progress: UploadProgress) => void
+    ): Promise<ParseResult> => {
+      const start = Date.now();
+      const { file, filename: name } = await this.prepareFile(
+        await getFile(),
+        filename,
+        options.pages
+      );
+
+      // Check the local cache before uploading anything
+      if (this.cache && (file instanceof Blob || file instanceof Uint8Array)) {
+        cacheKey = await this.cache.key(file, options);
+        // A cache hit creates no job, so the webhook would never fire
+        const cached =
+          options.caching === false || options.webhookUrl
+            ? undefined
+            : await this.cache.get(cacheKey);
+        if (cached) {
+          this.reportCacheHit(`cached:${cacheKey}`, name, "client");
+          settle({ id: `cached:${cacheKey}`, state: "completed", output: cached });
+          return { jobId: `cached:${cacheKey}` };
+        }
       }
 
-      // Add parse options as JSON (include caching flag)
-      formData.append("options", JSON.stringify({
+      // Parse options sent with the upload (include caching flag)
+      const parseOptions = {
         ocr: options.ocr,
         tables: options.tables,
         images: options.images,
         pageStreaming: options.pageStreaming,
+        structuredOutput: options.structuredOutput,
+        pages: options.pages,
+        pageOptions: options.pageOptions,
         caching: options.caching,
-      }));
+        webhookUrl: options.webhookUrl,
+        webhookSecret: options.webhookSecret,
+      };
+
+      const uploadStart = Date.now();
+      const resumable = upload.resumable || upload.uploadId !== undefined;
+      let bytes: () => number;
+      let response: QueueJobCreateResponse;
+      if (resumable) {
+        const { uploadId, size } = await this.uploadResumable(
+          file,
+          name,
+          upload,
+          signal,
+          onUploadProgress
+        );
+        bytes = () => size;
+        response = await this.request<QueueJobCreateResponse>(
+          `/v1/uploads/${encodeURIComponent(uploadId)}/complete`,
+          {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ size, options: parseOptions }),
+            signal,
+            idempotencyKey: generateIdempotencyKey(),
+          }
+        );
+      } else {
+        const counted = countBytes(file);
+        bytes = counted.bytes;
+        response = await this.request<QueueJobCreateResponse>(
+          "/v1/queue/parse",
+          {
+            method: "POST",
+            upload: createUploadBody(counted.file, name, {
+              options: JSON.stringify(parseOptions),
+            }),
+            signal,
+            idempotencyKey: generateIdempotencyKey(),
+          }
+        );
+      }
 
-      const response = await this.request<QueueJobCreateResponse>(
-        "/v1/queue/parse",
-        {
-          method: "POST",
-          body: formData,
-        }
-      );
+      this.observer.emit("upload", {
+        filename: name,
+        bytes: bytes(),
+        duration: Date.now() - uploadStart,
+        resumable,
+      });
 
       // Handle cache hit: API returns cached markdown directly
       if (response.cached && response.markdown) {
-        setCachedResult({
-          success: true,
+        const output = {
           markdown: response.markdown,
-          state: "completed",
-        });
-        return `cached:${response.documentId}`;
+          ...(response.structured && { structured: response.structured }),
+        };
+        if (cacheKey) await this.cache?.set(cacheKey, output);
+        this.reportCacheHit(`cached:${response.documentId}`, name, "server");
+        settle({ id: `cached:${response.documentId}`, state: "completed", output });
+        return { jobId: `cached:${response.documentId}`, ...this.trackQuota(response) };
       }
 
-      return response.jobId!;
+      this.reportCreated(response.jobId!, name, start);
+      return { jobId: response.jobId!, ...this.trackQuota(response) };
     };
 
-    return new ParseJob(createJob, this);
+    const onResult = async (result: JobResult) => {
+      if (cacheKey) await this.cache?.set(cacheKey, result);
+    };
+
+    return new ParseJob(createJob, this, onResult);
+  }
+
+  /**
+   * Read the quota from a response and warn if it dropped below the
+   * configured threshold.
+   *
+   * @returns `{ quota }` to spread into a result, or `{}` if none was reported
+   */
+  private trackQuota(response: {
+    remaining?: number | null;
+    unlimited?: boolean;
+  }): { quota?: Quota } {
+    const quota = readQuota(response);
+    if (!quota || !this.quotaWarning) return quota ? { quota } : {};
+
+    const { threshold, onWarning } = this.quotaWarning;
+    const wasLow = this.quotaLow;
+    this.quotaLow = quota.remaining !== null && quota.remaining < threshold;
+    if (this.quotaLow && !wasLow) {
+      this.observer.log(
+        "warn",
+        `Only ${quota.remaining} parses left, below the warning threshold of ${threshold}`
+      );
+      this.observer.emit("quotaWarning", { ...quota, threshold });
+      try {
+        onWarning?.(quota);
+      } catch (e) {
+        this.observer.log("warn", "quotaWarning.onWarning threw", { error: e });
+      }
+    }
+    return { quota };
+  }
+
+  private reportCreated(jobId: string, document: string, start: number): void {
+    const duration = Date.now() - start;
+    this.observer.emit("jobCreated", { jobId, document, duration });
+    this.observer.log("info", `Created job ${jobId} for ${document} (${duration}ms)`);
+  }
+
+  private reportCacheHit(
+    jobId: string,
+    filename: string,
+    source: "client" | "server"
+  ): void {
+    this.observer.emit("cacheHit", { jobId, filename, source });
+    this.observer.log("info", `Cached result for ${filename} (${source} cache)`);
+  }
+
+  /**
+   * Upload a file in chunks, resuming from the server's offset after each
+   * failure, and return the completed upload session.
+   */
+  private async uploadResumable(
+    file: FileInput,
+    filename: string,
+    options: UploadOptions,
+    signal: AbortSignal,
+    onProgress: (progress: UploadProgress) => void
+  ): Promise<{ uploadId: string; size: number }> {
+    const source = createChunkSource(file);
+    const chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+    const maxRetries = options.maxRetries ?? DEFAULT_UPLOAD_RETRIES;
+
+    const session =
+      options.uploadId !== undefined
+        ? await this.request<UploadSessionResponse>(
+            `/v1/uploads/${encodeURIComponent(options.uploadId)}`,
+            { signal }
+          )
+        : await this.request<UploadSessionResponse>("/v1/uploads", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({
+              filename,
+              contentType: getMimeTypeFromFilename(filename),
+              size: source.size,
+            }),
+            signal,
+            idempotencyKey: generateIdempotencyKey(),
+          });
+
+    const { uploadId } = session;
+    const endpoint = `/v1/uploads/${encodeURIComponent(uploadId)}`;
+    let offset = session.offset;
+    let failures = 0;
+
+    const report = () =>
+      onProgress({
+        uploadId,
+        bytesUploaded: offset,
+        totalBytes: source.size,
+        progress: source.size
+          ? Math.min(100, (offset / source.size) * 100)
+          : null,
+      });
+    report();
+
+    while (true) {
+      const chunk = await source.read(offset, chunkSize);
+      const length = chunk instanceof Blob ? chunk.size : chunk.byteLength;
+      if (length === 0) return { uploadId, size: offset };
+
+      try {
+        const received = await this.request<UploadSessionResponse>(endpoint, {
+          method: "PUT",
+          headers: {
+            "Content-Type": "application/octet-stream",
+            "Content-Range": `bytes ${offset}-${offset + length - 1}/${source.size ?? "*"}`,
+          },
+          // Uint8Array views are valid bodies; the DOM types only allow ArrayBuffer-backed ones
+          body: chunk as BodyInit,
+          signal,
+        });
+        offset = received.offset;
+        failures = 0;
+        report();
+      } catch (error) {
+        if (signal.aborted) throw error;
+        if (!isRetryableError(error, this.retryPolicy) || ++failures > maxRetries) {
+          throw new FlenseUploadError(
+            `Upload ${uploadId} stopped at byte ${offset}: ${error instanceof Error ? error.message : error}`,
+            { uploadId, bytesUploaded: offset },
+            { cause: error }
+          );
+        }
+        const delay = getRetryDelay(error, failures, this.retryPolicy);
+        this.observer.log(
+          "warn",
+          `Resuming upload ${uploadId} from byte ${offset} in ${Math.round(delay)}ms (retry ${failures} of ${maxRetries})`,
+          { error }
+        );
+        await sleep(delay, signal);
+        try {
+          // The server may have stored part of the chunk before the failure
+          offset = (await this.request<UploadSessionResponse>(endpoint, { signal }))
+            .offset;
+        } catch {
+          // Resend from the last known offset; a failure counts on the next attempt
+        }
+      }
+    }
+  }
+
+  /**
+   * Check a file before uploading it.
+   *
+   * Runs the same checks as the automatic validation in {@link parseFile}:
+   * supported type (detected from content), empty files, size and page
+   * limits, and PDF encryption. Nothing is uploaded.
+   *
+   * Validating a stream reads from it; validate Blobs, buffers or paths, or
+   * rely on the automatic validation when parsing streams.
+   *
+   * @param file - The file to check
+   * @param filename - Name of the file
+   * @param options - Limits overriding the client's `validation` config
+   * @returns The validation result with structured issues
+   *
+   * @example
+   * ```typescript
+   * const { valid, issues, pageCount } = await flense.validate(file, file.name, {
+   *   maxFileSize: 50 * 1024 * 1024,
+   * });
+   * if (!valid) showErrors(issues.map((issue) => issue.message));
+   * ```
+   */
+  async validate(
+    file: FileInput,
+    filename: string,
+    options: ValidationOptions = {}
+  ): Promise<ValidationResult> {
+    const inspected = await inspectFile(file);
+    if (this.detectFileTypes) {
+      filename = filenameForMimeType(filename, await sniffMimeType(inspected.read));
+    }
+    return validateFile(inspected, filename, { ...this.validation, ...options });
+  }
+
+  /**
+   * Detect the file's type and validate it, returning what to upload.
+   */
+  private async prepareFile(
+    file: FileInput,
+    filename: string,
+    pages?: string
+  ): Promise<{ file: FileInput; filename: string }> {
+    if (!this.detectFileTypes && !this.validation) return { file, filename };
+
+    const inspected = await inspectFile(file);
+    if (this.detectFileTypes) {
+      filename = filenameForMimeType(filename, await sniffMimeType(inspected.read));
+    }
+    if (this.validation) {
+      const result = await validateFile(inspected, filename, {
+        ...this.validation,
+        ...(pages !== undefined && { pages }),
+      });
+      if (!result.valid) throw new FlenseInvalidFileError(result);
+    }
+    return { file: inspected.file, filename };
+  }
+
+  /**
+   * Parse many documents with bounded concurrency.
+   *
+   * Accepts a mix of URLs and files. At most `concurrency` documents are
+   * uploading or processing at once. A failing item does not stop the batch;
+   * each item's outcome is reported in the returned list, in input order.
+   *
+   * @param inputs - URLs (`string` or `{ url }`) and files (`{ file, filename }`)
+   * @param options - Concurrency, shared parse options and progress callbacks
+   * @returns Promise resolving to one result per input
+   *
+   * @example
+   * ```typescript
+   * const results = await flense.parseBatch(
+   *   [
+   *     'https://example.com/a.pdf',
+   *     { file: fs.readFileSync('b.pdf'), filename: 'b.pdf' },
+   *     { file: scan, filename: 'c.pdf', options: { ocr: true } },
+   *   ],
+   *   {
+   *     concurrency: 2,
+   *     options: { tables: true },
+   *     onProgress: (p) => console.log(`${p.progress.toFixed(0)}% overall`),
+   *   }
+   * );
+   *
+   * for (const item of results) {
+   *   if (item.success) console.log(item.result.markdown);
+   *   else console.error(item.index, item.error.message);
+   * }
+   * ```
+   */
+  parseBatch(
+    inputs: BatchInput[],
+    options: BatchOptions = {}
+  ): Promise<BatchItemResult[]> {
+    return runBatch(this, inputs, options);
   }
 
   /**
@@ -841,6 +2287,7 @@ export class Flense {
    *
    * @param file - The file to parse
    * @param filename - Name of the file
+   * @param options - Structured output and an optional `signal` to abort the request
    * @returns Promise resolving to the parsed result
    *
    * @example
@@ -850,30 +2297,76 @@ export class Flense {
    * ```
    */
   async parseFileSync(
-    file: Buffer | File | Blob,
-    filename: string
+    file: FileInput,
+    filename: string,
+    options: ParseFileSyncOptions = {}
   ): Promise<ParseFileResult> {
-    const formData = new FormData();
-
-    if (typeof Buffer !== "undefined" && Buffer.isBuffer(file)) {
-      const uint8Array = new Uint8Array(file);
-      const blob = new Blob([uint8Array], {
-        type: getMimeTypeFromFilename(filename),
-      });
-      formData.append("file", blob, filename);
-    } else {
-      formData.append("file", file as Blob, filename);
-    }
+    ({ file, filename } = await this.prepareFile(file, filename));
 
+    const fields: Record<string, string> = options.structuredOutput
+      ? { options: JSON.stringify({ structuredOutput: true }) }
+      : {};
     const response = await this.request<FlenseResponse>("/v1/flense/", {
       method: "POST",
-      body: formData,
+      upload: createUploadBody(file, filename, fields),
+      signal: options.signal,
     });
 
     return {
       success: response.success,
       markdown: response.markdown || response.content || "",
+      ...(response.structured && { structured: response.structured }),
+    };
+  }
+
+  /**
+   * Get a handle for an existing job, e.g. one whose ID was stored before a
+   * restart.
+   *
+   * The returned {@link ParseJob} supports `wait()`, `subscribe()`,
+   * `events()`, `markdownStream()` and `cancel()`. The job's status is
+   * fetched first, so a job that has already completed, failed or been
+   * cancelled is reported immediately instead of through polling or SSE.
+   *
+   * @param jobId - ID of a job created earlier
+   * @returns A job handle; awaiting it fetches the status and resolves with the ID
+   *
+   * @example Reattach to in-flight jobs after a restart
+   * ```typescript
+   * for (const { jobId } of await db.pendingJobs()) {
+   *   flense.job(jobId).wait().then(
+   *     (result) => db.complete(jobId, result.markdown),
+   *     (error) => db.fail(jobId, error)
+   *   );
+   * }
+   * ```
+   */
+  job(jobId: string): ParseJob {
+    const createJob = async (
+      _options: ParseOptions,
+      settle: (status: JobStatus) => void,
+      signal: AbortSignal
+    ): Promise<ParseResult> => {
+      const status = await this.request<JobStatus>(
+        `/v1/queue/jobs/${jobId}`,
+        { signal }
+      );
+      switch (status.state) {
+        case "archived":
+          // Throws if the result is no longer available
+          resultFromStatus(status);
+          settle(status);
+          break;
+        case "completed":
+        case "failed":
+        case "cancelled":
+          settle(status);
+          break;
+      }
+      return { jobId };
     };
+
+    return new ParseJob(createJob, this, undefined, jobId);
   }
 
   /**
@@ -892,6 +2385,97 @@ export class Flense {
     return this.request<JobStatus>(`/v1/queue/jobs/${jobId}`);
   }
 
+  /**
+   * List jobs, newest first, optionally filtered by state and creation time.
+   *
+   * Await the result for one page, or iterate it with `for await` to walk
+   * through all matching jobs; further pages are fetched as needed.
+   *
+   * @param options - Filters, page size, starting cursor and abort signal
+   * @returns A {@link JobList}: a promise of the first page and an async iterable of jobs
+   *
+   * @example Find stuck jobs
+   * ```typescript
+   * const hourAgo = new Date(Date.now() - 60 * 60 * 1000);
+   * for await (const job of flense.listJobs({ state: 'active', createdBefore: hourAgo })) {
+   *   console.log(`${job.id} active since ${job.startedOn}`);
+   * }
+   * ```
+   *
+   * @example Page manually
+   * ```typescript
+   * const { jobs, nextCursor } = await flense.listJobs({ state: ['failed', 'cancelled'], limit: 50 });
+   * const more = nextCursor && (await flense.listJobs({ cursor: nextCursor, limit: 50 }));
+   * ```
+   */
+  listJobs(options: ListJobsOptions = {}): JobList {
+    const { state, createdAfter, createdBefore, limit, signal } = options;
+
+    const params = new URLSearchParams();
+    if (state !== undefined) params.set("state", [state].flat().join(","));
+    if (createdAfter !== undefined) {
+      params.set("createdAfter", new Date(createdAfter).toISOString());
+    }
+    if (createdBefore !== undefined) {
+      params.set("createdBefore", new Date(createdBefore).toISOString());
+    }
+    if (limit !== undefined) params.set("limit", String(limit));
+
+    const fetchPage = async (cursor: string | undefined): Promise<JobPage> => {
+      const query = new URLSearchParams(params);
+      if (cursor) query.set("cursor", cursor);
+      const page = await this.request<Partial<JobPage>>(
+        `/v1/queue/jobs?${query}`,
+        { signal }
+      );
+      return { jobs: page.jobs ?? [], nextCursor: page.nextCursor ?? null };
+    };
+
+    return new JobList(fetchPage, options.cursor);
+  }
+
+  /**
+   * Cancel a queued or active job.
+   *
+   * For jobs created through {@link parseFile} or {@link parseUrl}, prefer
+   * `ParseJob.cancel()`, which also handles jobs whose ID is not known yet.
+   *
+   * @param jobId - The job ID to cancel
+   * @returns Promise resolving to the updated job status
+   *
+   * @example
+   * ```typescript
+   * const status = await flense.cancelJob('job_abc123');
+   * console.log(status.state); // 'cancelled'
+   * ```
+   */
+  async cancelJob(jobId: string): Promise<JobStatus> {
+    return this.request<JobStatus>(`/v1/queue/jobs/${jobId}/cancel`, {
+      method: "POST",
+    });
+  }
+
+  /**
+   * Get the account's plan limits and consumption for the current billing
+   * period. Also checks the remaining quota against `quotaWarning`.
+   *
+   * @param options - Optional `signal` to abort the request
+   * @returns Promise resolving to the usage
+   *
+   * @example
+   * ```typescript
+   * const { plan, used, limit, remaining, periodEnd } = await flense.getUsage();
+   * console.log(`${plan}: ${used}/${limit ?? '∞'} parses, ${remaining} left until ${periodEnd}`);
+   * ```
+   */
+  async getUsage(options: AbortOptions = {}): Promise<Usage> {
+    const usage = await this.request<Usage>("/v1/usage", {
+      signal: options.signal,
+    });
+    this.trackQuota(usage);
+    return usage;
+  }
+
   /**
    * Subscribe to real-time job updates via Server-Sent Events.
    *
@@ -900,12 +2484,16 @@ export class Flense {
    *
    * @param jobId - The job ID to subscribe to
    * @param callbacks - Callback functions for different event types
+   * @param options - Optional `signal` that closes the connection when aborted
    * @returns Unsubscribe function to close the connection
    *
    * @remarks
-   * Requires EventSource support (browsers, or polyfill in Node.js).
+   * Uses a fetch-based SSE reader that sends the API key as a bearer token,
+   * so no EventSource polyfill is needed in Node.js. Dropped connections are
+   * re-established automatically, resuming from the last received event.
    * The connection will automatically close when the job completes,
-   * fails, is cancelled, or times out (5 minutes max).
+   * fails, is cancelled, or times out (5 minutes max). A timeout is reported
+   * to `onError` as a {@link FlenseTimeoutError}; the job keeps running.
    *
    * @example
    * ```typescript
@@ -921,23 +2509,15 @@ export class Flense {
    */
   subscribeToJob(
     jobId: string,
-    callbacks: JobSubscriptionCallbacks
+    callbacks: JobSubscriptionCallbacks,
+    options: AbortOptions = {}
   ): () => void {
     const sseUrl = `${this.baseUrl}/v1/queue/jobs/${jobId}/subscribe`;
 
-    // Check for EventSource support
-    if (typeof EventSource === "undefined") {
-      callbacks.onError?.(
-        new Error(
-          "EventSource not supported. Use waitForJob() for polling, or add an EventSource polyfill."
-        )
-      );
-      return () => {};
-    }
-
-    const eventSource = new EventSource(sseUrl);
-
+    let finished = false;
     const handleStatus = (data: JobStatus) => {
+      // Terminal statuses can arrive as both a status and a final event
+      if (!finished) finished = this.reportFinished(data);
       callbacks.onStatus?.(data);
       if (data.state === "completed") {
         callbacks.onComplete?.(data);
@@ -946,120 +2526,146 @@ export class Flense {
       }
     };
 
-    eventSource.addEventListener("status", (event) => {
-      try {
-        const data = JSON.parse((event as MessageEvent).data) as JobStatus;
-        handleStatus(data);
-      } catch (e) {
-        callbacks.onError?.(new Error(`Failed to parse status event: ${e}`));
-      }
-    });
-
-    eventSource.addEventListener("progress", (event) => {
-      try {
-        const data = JSON.parse(
-          (event as MessageEvent).data
-        ) as ProgressUpdate;
-        callbacks.onProgress?.(data);
-      } catch (e) {
-        callbacks.onError?.(new Error(`Failed to parse progress event: ${e}`));
-      }
-    });
-
-    eventSource.addEventListener("content", (event) => {
-      try {
-        const data = JSON.parse((event as MessageEvent).data) as ContentChunk;
-        callbacks.onContent?.(data);
-      } catch (e) {
-        callbacks.onError?.(new Error(`Failed to parse content event: ${e}`));
-      }
-    });
-
-    eventSource.addEventListener("complete", (event) => {
-      try {
-        const data = JSON.parse((event as MessageEvent).data) as JobStatus;
-        handleStatus(data);
-        eventSource.close();
-      } catch (e) {
-        callbacks.onError?.(new Error(`Failed to parse complete event: ${e}`));
-      }
-    });
-
-    eventSource.addEventListener("failed", (event) => {
-      try {
-        const data = JSON.parse((event as MessageEvent).data) as JobStatus;
-        handleStatus(data);
-        eventSource.close();
-      } catch (e) {
-        callbacks.onError?.(new Error(`Failed to parse failed event: ${e}`));
-      }
-    });
-
-    eventSource.addEventListener("cancelled", (event) => {
-      try {
-        const data = JSON.parse((event as MessageEvent).data) as JobStatus;
-        handleStatus(data);
-        eventSource.close();
-      } catch (e) {
-        callbacks.onError?.(
-          new Error(`Failed to parse cancelled event: ${e}`)
+    const close = () => {
+      options.signal?.removeEventListener("abort", close);
+      closeStream();
+    };
+    const closeStream = openEventStream(sseUrl, {
+      headers: this.authHeaders(),
+      fetch: this.transport,
+      onEvent: ({ event, data }) => {
+        try {
+          switch (event) {
+            case "status":
+              handleStatus(JSON.parse(data) as JobStatus);
+              break;
+            case "progress":
+              callbacks.onProgress?.(JSON.parse(data) as ProgressUpdate);
+              break;
+            case "content":
+              callbacks.onContent?.(JSON.parse(data) as ContentChunk);
+              break;
+            case "complete":
+            case "failed":
+            case "cancelled":
+              handleStatus(JSON.parse(data) as JobStatus);
+              close();
+              break;
+            case "timeout":
+              close();
+              callbacks.onError?.(
+                new FlenseTimeoutError(
+                  `Subscription to job ${jobId} timed out before the job finished`,
+                  SUBSCRIPTION_TIMEOUT
+                )
+              );
+              break;
+          }
+        } catch (e) {
+          callbacks.onError?.(
+            new FlenseError(`Failed to parse ${event} event: ${e}`, {
+              cause: e,
+            })
+          );
+        }
+      },
+      onError: (error) => {
+        close();
+        callbacks.onError?.(error);
+      },
+      onReconnect: (error, delay) => {
+        this.observer.log(
+          "warn",
+          `Reconnecting to job ${jobId} events in ${delay}ms`,
+          { error }
         );
-      }
+      },
     });
 
-    eventSource.addEventListener("timeout", () => {
-      eventSource.close();
-    });
-
-    eventSource.onerror = () => {
-      callbacks.onError?.(new Error("SSE connection error"));
-      eventSource.close();
-    };
+    if (options.signal?.aborted) close();
+    else options.signal?.addEventListener("abort", close, { once: true });
 
-    return () => {
-      eventSource.close();
-    };
+    return close;
   }
 
   /**
    * Wait for a job to complete and return the result.
    *
-   * Uses polling to check job status periodically.
-   * For real-time updates, use {@link subscribeToJob} instead.
+   * Uses polling to check job status. The interval starts at
+   * `initialInterval` and grows by `backoffFactor` up to `maxInterval`,
+   * resetting whenever the job changes state. For real-time updates,
+   * use {@link subscribeToJob} instead.
    *
    * @param jobId - The job ID to wait for
+   * @param options - Polling intervals, overall timeout, `onPoll` callback and
+   *   an optional `signal` to stop waiting (none of these cancel the job)
    * @returns Promise resolving to the job result
-   * @throws Error if the job fails
+   * @throws {@link FlenseJobFailedError} if the job fails
+   * @throws {@link FlenseJobCancelledError} if the job is cancelled
+   * @throws {@link FlenseTimeoutError} if `timeout` elapses first
    *
    * @example
    * ```typescript
    * const result = await flense.waitForJob('job_abc123');
    * console.log(result.markdown);
    * ```
+   *
+   * @example Give up after 10 minutes, polling at most every 30 seconds
+   * ```typescript
+   * const result = await flense.waitForJob('job_abc123', {
+   *   timeout: 10 * 60_000,
+   *   maxInterval: 30_000,
+   *   onPoll: (status) => console.log(status.state),
+   * });
+   * ```
    */
-  async waitForJob(jobId: string): Promise<JobResult> {
-    const pollInterval = 1000;
+  async waitForJob(
+    jobId: string,
+    options: WaitOptions = {}
+  ): Promise<JobResult> {
+    const {
+      signal,
+      timeout,
+      initialInterval = 1000,
+      maxInterval = 10000,
+      backoffFactor = 1.5,
+      onPoll,
+    } = options;
+    const deadline = timeout !== undefined ? Date.now() + timeout : Infinity;
+
+    let interval = initialInterval;
+    let lastState: JobState | undefined;
 
     while (true) {
-      const response = await this.request<QueueJobStatusResponse>(
-        `/v1/queue/jobs/${jobId}`
+      const status = await this.request<JobStatus>(
+        `/v1/queue/jobs/${jobId}`,
+        { signal }
       );
+      onPoll?.(status);
+      this.observer.log("debug", `Job ${jobId} is ${status.state}`);
+      this.reportFinished(status);
 
-      if (response.state === "completed") {
-        return {
-          success: true,
-          markdown: response.output?.markdown || response.output?.content || "",
-          state: response.state,
-        };
+      const result = resultFromStatus(status);
+      if (result) {
+        return result;
+      }
+
+      if (status.state !== lastState) {
+        // Poll quickly again after a transition, e.g. created -> active
+        lastState = status.state;
+        interval = initialInterval;
       }
 
-      if (response.state === "failed") {
-        throw new Error(
-          `Job ${jobId} failed: ${response.error ?? "Unknown error"}`
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        throw new FlenseTimeoutError(
+          `Timed out after ${timeout}ms waiting for job ${jobId} (state: ${status.state})`,
+          timeout!
         );
       }
 
-      await new Promise((resolve) => setTimeout(resolve, pollInterval));
+      await sleep(Math.min(interval, remaining), signal);
+      interval = Math.min(interval * backoffFactor, maxInterval);
     }
   }
 }
@@ -0,0 +1,96 @@
+/**
+ * Job listing with cursor-based pagination.
+ *
+ * @example Find failed jobs from the last day
+ * ```typescript
+ * const since = new Date(Date.now() - 24 * 60 * 60 * 1000);
+ *
+ * for await (const job of flense.listJobs({ state: 'failed', createdAfter: since })) {
+ *   console.log(job.id, job.error);
+ * }
+ * ```
+ *
+ * @module
+ */
+
+import type { AbortOptions, JobState, JobStatus } from "./index.js";
+
+/**
+ * Filters and paging for {@link Flense.listJobs}.
+ */
+export interface ListJobsOptions extends AbortOptions {
+  /** Only jobs in this state, or in any of these states */
+  state?: JobState | JobState[];
+
+  /** Only jobs created at or after this time (a `Date` or ISO 8601 string) */
+  createdAfter?: Date | string;
+
+  /** Only jobs created before this time (a `Date` or ISO 8601 string) */
+  createdBefore?: Date | string;
+
+  /**
+   * Jobs per page, up to 100.
+   * @default 20
+   */
+  limit?: number;
+
+  /** Continue from a previous page's `nextCursor` */
+  cursor?: string;
+}
+
+/**
+ * One page of jobs.
+ */
+export interface JobPage {
+  /** Jobs on this page, newest first */
+  jobs: JobStatus[];
+  /** Cursor for the next page, or `null` on the last page */
+  nextCursor: string | null;
+}
+
+/**
+ * Result of {@link Flense.listJobs}.
+ *
+ * Await it for the first page, or iterate it with `for await` to go through
+ * every matching job, fetching further pages as needed.
+ */
+export class JobList implements PromiseLike<JobPage>, AsyncIterable<JobStatus> {
+  private firstPage: Promise<JobPage> | null = null;
+
+  constructor(
+    private fetchPage: (cursor: string | undefined) => Promise<JobPage>,
+    private cursor?: string
+  ) {}
+
+  private getFirstPage(): Promise<JobPage> {
+    this.firstPage ??= this.fetchPage(this.cursor);
+    return this.firstPage;
+  }
+
+  then<TResult1 = JobPage, TResult2 = never>(
+    onFulfilled?: ((value: JobPage) => TResult1 | PromiseLike<TResult1>) | null,
+    onRejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): Promise<TResult1 | TResult2> {
+    return this.getFirstPage().then(onFulfilled, onRejected);
+  }
+
+  /**
+   * Iterate over pages, starting with the first.
+   *
+   * @returns Async iterator of {@link JobPage}s
+   */
+  async *pages(): AsyncGenerator<JobPage, void, undefined> {
+    let page = await this.getFirstPage();
+    yield page;
+    while (page.nextCursor) {
+      page = await this.fetchPage(page.nextCursor);
+      yield page;
+    }
+  }
+
+  async *[Symbol.asyncIterator](): AsyncGenerator<JobStatus, void, undefined> {
+    for await (const page of this.pages()) {
+      yield* page.jobs;
+    }
+  }
+}
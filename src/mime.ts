@@ -0,0 +1,376 @@
+/**
+ * MIME type and filename helpers shared by the client and the CLI.
+ *
+ * @module
+ */
+
+export const MIME_TYPES: Record<string, string> = {
+  pdf: "application/pdf",
+  doc: "application/msword",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  xls: "application/vnd.ms-excel",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  ppt: "application/vnd.ms-powerpoint",
+  pptx: "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+  txt: "text/plain",
+  csv: "text/csv",
+  html: "text/html",
+  xml: "application/xml",
+  json: "application/json",
+};
+
+/** Leading bytes inspected to detect a file's type. */
+export const SNIFF_LENGTH = 64 * 1024;
+
+/** Preferred extension for each detected MIME type. */
+const EXTENSIONS: Record<string, string> = Object.fromEntries(
+  Object.entries(MIME_TYPES)
+    .reverse()
+    .map(([ext, mimeType]) => [mimeType, ext])
+);
+
+/**
+ * Reads `length` bytes at `offset`; returns fewer (or none) past the end of
+ * the data available.
+ */
+export type ByteReader = (offset: number, length: number) => Promise<Uint8Array>;
+
+const PROBE_TIMEOUT = 10000;
+
+const OLE_SIGNATURE = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1];
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+/** OLE directory stream names identifying legacy Office formats. */
+const OLE_STREAMS: Record<string, string> = {
+  WordDocument: "application/msword",
+  Workbook: "application/vnd.ms-excel",
+  Book: "application/vnd.ms-excel",
+  "PowerPoint Document": "application/vnd.ms-powerpoint",
+};
+
+/** Top-level folders of the OOXML zip containers. */
+const OOXML_FOLDERS: Record<string, string> = {
+  "word/": MIME_TYPES.docx!,
+  "xl/": MIME_TYPES.xlsx!,
+  "ppt/": MIME_TYPES.pptx!,
+};
+
+function hasBytes(bytes: Uint8Array, signature: number[], offset = 0): boolean {
+  return signature.every((byte, i) => bytes[offset + i] === byte);
+}
+
+function latin1(bytes: Uint8Array, start = 0, end = bytes.length): string {
+  let text = "";
+  for (let i = start; i < end && i < bytes.length; i++) {
+    text += String.fromCharCode(bytes[i]!);
+  }
+  return text;
+}
+
+function sniffOoxml(bytes: Uint8Array): string | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  // Walk the local file headers, which store entry names uncompressed
+  let offset = 0;
+  while (offset + 30 <= bytes.length && view.getUint32(offset, true) === 0x04034b50) {
+    const flags = view.getUint16(offset + 6, true);
+    const compressedSize = view.getUint32(offset + 18, true);
+    const nameLength = view.getUint16(offset + 26, true);
+    const extraLength = view.getUint16(offset + 28, true);
+    const name = latin1(bytes, offset + 30, offset + 30 + nameLength);
+
+    for (const [folder, mimeType] of Object.entries(OOXML_FOLDERS)) {
+      if (name.startsWith(folder)) return mimeType;
+    }
+    // Sizes follow the data in a descriptor, so the next header can't be found
+    if (flags & 0x08) break;
+    offset += 30 + nameLength + extraLength + compressedSize;
+  }
+
+  const text = latin1(bytes);
+  for (const [folder, mimeType] of Object.entries(OOXML_FOLDERS)) {
+    if (text.includes(folder)) return mimeType;
+  }
+  return null;
+}
+
+async function sniffOle(head: Uint8Array, read: ByteReader): Promise<string | null> {
+  if (head.length < 512) return null;
+  const view = new DataView(head.buffer, head.byteOffset, head.byteLength);
+  const sectorSize = 1 << view.getUint16(30, true);
+  const directoryOffset = (view.getUint32(48, true) + 1) * sectorSize;
+
+  const directory =
+    directoryOffset + sectorSize <= head.length
+      ? head.subarray(directoryOffset, directoryOffset + sectorSize)
+      : await read(directoryOffset, sectorSize);
+
+  // Each 128-byte entry starts with a UTF-16LE name and its byte length
+  const decoder = new TextDecoder("utf-16le");
+  for (let entry = 0; entry + 128 <= directory.length; entry += 128) {
+    const nameLength = directory[entry + 64]! | (directory[entry + 65]! << 8);
+    if (nameLength < 2 || nameLength > 64) continue;
+    const name = decoder.decode(directory.subarray(entry, entry + nameLength - 2));
+    const mimeType = OLE_STREAMS[name];
+    if (mimeType) return mimeType;
+  }
+  return null;
+}
+
+function sniffText(bytes: Uint8Array): string | null {
+  if (bytes.includes(0)) return null;
+
+  let text: string;
+  try {
+    // Streaming mode tolerates a character cut off at the end of the sample
+    text = new TextDecoder("utf-8", { fatal: true }).decode(bytes, { stream: true });
+  } catch {
+    return null;
+  }
+
+  const start = text.replace(/^\uFEFF/, "").trimStart();
+  const lower = start.slice(0, 256).toLowerCase();
+  if (lower.startsWith("<!doctype html") || lower.startsWith("<html")) {
+    return MIME_TYPES.html!;
+  }
+  if (lower.startsWith("<?xml")) return MIME_TYPES.xml!;
+  if (start.startsWith("{") || start.startsWith("[")) return MIME_TYPES.json!;
+
+  const lines = start.split(/\r?\n/, 6).slice(0, 5).filter(Boolean);
+  const columns = lines.map((line) => line.split(",").length);
+  if (lines.length >= 2 && columns[0]! > 1 && columns.every((n) => n === columns[0])) {
+    return MIME_TYPES.csv!;
+  }
+  return MIME_TYPES.txt!;
+}
+
+/**
+ * Detect a document's MIME type from its content.
+ *
+ * Recognizes every format in {@link MIME_TYPES}: PDF, PNG, JPEG, GIF and
+ * WebP by their signatures, DOCX/XLSX/PPTX by the folders in their zip
+ * container, legacy DOC/XLS/PPT by the streams in their OLE directory, and
+ * HTML, XML, JSON, CSV and plain text heuristically.
+ *
+ * @param read - Reader over the document's bytes
+ * @returns The detected MIME type, or `null` if the format is not recognized
+ */
+export async function sniffMimeType(read: ByteReader): Promise<string | null> {
+  const head = await read(0, SNIFF_LENGTH);
+  if (head.length === 0) return null;
+
+  // PDF readers accept a header anywhere in the first kilobyte
+  if (latin1(head, 0, 1024).includes("%PDF-")) return MIME_TYPES.pdf!;
+  if (hasBytes(head, PNG_SIGNATURE)) return MIME_TYPES.png!;
+  if (hasBytes(head, [0xff, 0xd8, 0xff])) return MIME_TYPES.jpg!;
+  if (latin1(head, 0, 6) === "GIF87a" || latin1(head, 0, 6) === "GIF89a") {
+    return MIME_TYPES.gif!;
+  }
+  if (latin1(head, 0, 4) === "RIFF" && latin1(head, 8, 12) === "WEBP") {
+    return MIME_TYPES.webp!;
+  }
+  if (hasBytes(head, [0x50, 0x4b, 0x03, 0x04])) return sniffOoxml(head);
+  if (hasBytes(head, OLE_SIGNATURE)) return sniffOle(head, read);
+  return sniffText(head);
+}
+
+function isTextType(mimeType: string): boolean {
+  return (
+    mimeType.startsWith("text/") ||
+    mimeType === MIME_TYPES.xml ||
+    mimeType === MIME_TYPES.json
+  );
+}
+
+/**
+ * Give a filename the extension matching its detected MIME type, e.g.
+ * `blob` → `blob.pdf` or `report.doc` → `report.docx`.
+ *
+ * Text formats can't be told apart reliably (a CSV is also plain text), so
+ * an existing text extension is kept for text content.
+ *
+ * @param filename - The original filename
+ * @param mimeType - The detected MIME type, or `null` to keep the filename
+ */
+export function filenameForMimeType(
+  filename: string,
+  mimeType: string | null
+): string {
+  if (!mimeType) return filename;
+  const current = getMimeTypeFromFilename(filename);
+  if (current === mimeType) return filename;
+  if (isTextType(mimeType) && isTextType(current)) return filename;
+
+  const ext = EXTENSIONS[mimeType];
+  if (!ext) return filename;
+
+  // Replace a known (wrong) extension, otherwise append
+  const dot = filename.lastIndexOf(".");
+  const base =
+    dot > 0 && filename.slice(dot + 1).toLowerCase() in MIME_TYPES
+      ? filename.slice(0, dot)
+      : filename;
+  return `${base}.${ext}`;
+}
+
+/**
+ * Extract the filename from a `Content-Disposition` header, preferring the
+ * RFC 5987 `filename*` form.
+ */
+export function parseContentDisposition(header: string | null): string | null {
+  if (!header) return null;
+
+  const extended = /filename\*\s*=\s*(?:[\w-]+)?'[^']*'([^;]+)/i.exec(header);
+  if (extended) {
+    try {
+      return basename(decodeURIComponent(extended[1]!.trim()));
+    } catch {
+      // Malformed encoding, fall back to the plain form
+    }
+  }
+
+  const plain = /filename\s*=\s*(?:"((?:\\.|[^"])*)"|([^;]+))/i.exec(header);
+  const value = plain?.[1]?.replace(/\\(.)/g, "$1") ?? plain?.[2]?.trim();
+  return value ? basename(value) : null;
+}
+
+async function readHead(
+  body: ReadableStream<Uint8Array>,
+  length: number
+): Promise<Uint8Array> {
+  const reader = body.getReader();
+  const pieces: Uint8Array[] = [];
+  let size = 0;
+  try {
+    while (size < length) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      pieces.push(value);
+      size += value.byteLength;
+    }
+  } finally {
+    // Servers may ignore the Range header; don't download the rest
+    reader.cancel().catch(() => {});
+  }
+
+  const head = new Uint8Array(size);
+  let offset = 0;
+  for (const piece of pieces) {
+    head.set(piece, offset);
+    offset += piece.byteLength;
+  }
+  return head.subarray(0, length);
+}
+
+/**
+ * Work out the filename and MIME type of a remote document.
+ *
+ * Fetches the first {@link SNIFF_LENGTH} bytes with a range request and uses,
+ * in order of preference: the content's signature, the `Content-Type`
+ * header, then the extension of the `Content-Disposition` filename or URL
+ * path. Falls back to the URL alone if the document can't be fetched (for
+ * example because of CORS in browsers), since the API downloads it itself.
+ *
+ * @param url - Public URL of the document
+ * @param signal - Aborts the probe
+ * @param fetchImpl - `fetch` implementation to use
+ * @throws The signal's abort reason if it is aborted
+ */
+export async function probeUrl(
+  url: string,
+  signal?: AbortSignal,
+  fetchImpl: typeof fetch = globalThis.fetch
+): Promise<{ filename: string; mimeType: string }> {
+  let filename = getFilenameFromUrl(url);
+
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  const timer = setTimeout(abort, PROBE_TIMEOUT);
+  signal?.addEventListener("abort", abort, { once: true });
+
+  try {
+    const response = await fetchImpl(url, {
+      headers: { Range: `bytes=0-${SNIFF_LENGTH - 1}` },
+      signal: controller.signal,
+    });
+
+    if (response.ok && response.body) {
+      filename =
+        parseContentDisposition(response.headers.get("content-disposition")) ??
+        filename;
+
+      const head = await readHead(response.body, SNIFF_LENGTH);
+      const headerType = response.headers
+        .get("content-type")
+        ?.split(";")[0]!
+        .trim()
+        .toLowerCase();
+      const declared = headerType && headerType in EXTENSIONS ? headerType : null;
+      const sniffed = await sniffMimeType(async (offset, length) =>
+        head.subarray(offset, offset + length)
+      );
+      // Text formats are only guessed from content, so trust the server's
+      const detected =
+        sniffed && !(declared && isTextType(declared) && isTextType(sniffed))
+          ? sniffed
+          : declared;
+      filename = filenameForMimeType(filename, detected);
+    } else {
+      await response.body?.cancel();
+    }
+  } catch {
+    // Keep the name from the URL, unless the caller gave up
+    signal?.throwIfAborted();
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", abort);
+  }
+
+  return { filename, mimeType: getMimeTypeFromFilename(filename) };
+}
+
+/**
+ * Get the file name from a path, for both `/` and `\` separators.
+ */
+export function basename(filePath: string): string {
+  return filePath.split(/[\\/]/).filter(Boolean).pop() ?? filePath;
+}
+
+export function getFilenameFromUrl(url: string): string {
+  try {
+    const urlObj = new URL(url);
+    const pathname = urlObj.pathname;
+    const segments = pathname.split("/").filter(Boolean);
+    if (segments.length > 0) {
+      const lastSegment = segments[segments.length - 1];
+      if (lastSegment && lastSegment.includes(".")) {
+        return lastSegment;
+      }
+    }
+  } catch {
+    // Invalid URL, return default
+  }
+  return "document";
+}
+
+export function getMimeTypeFromFilename(filename: string): string {
+  const ext = filename.split(".").pop()?.toLowerCase();
+  if (ext && MIME_TYPES[ext]) {
+    return MIME_TYPES[ext];
+  }
+  return "application/octet-stream";
+}
+
+/**
+ * Whether a filename has an extension Flense can parse.
+ */
+export function isSupportedFilename(filename: string): boolean {
+  if (!filename.includes(".")) return false;
+  const ext = filename.split(".").pop()!.toLowerCase();
+  return ext in MIME_TYPES;
+}
@@ -0,0 +1,245 @@
+/**
+ * Logging and client events.
+ *
+ * Pass a {@link FlenseLogger} (such as `console`) to see what the client
+ * does, or listen to typed events with {@link Flense.on} to record metrics.
+ * Events carry durations and byte counts, so slow ingestion can be
+ * attributed to uploading, queueing or processing.
+ *
+ * @example
+ * ```typescript
+ * const flense = new Flense({ logger: console, logLevel: 'debug' });
+ *
+ * flense.on('jobCompleted', ({ jobId, queueTime, processingTime }) => {
+ *   metrics.histogram('flense.queue_ms', queueTime);
+ *   metrics.histogram('flense.processing_ms', processingTime);
+ * });
+ * ```
+ *
+ * @module
+ */
+
+import type { JobState, JobStatus } from "./index.js";
+import type { FlenseMiddleware } from "./transport.js";
+import type { Quota } from "./usage.js";
+
+/**
+ * Log levels, from most to least verbose.
+ */
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+/**
+ * Destination for client logs. `console` works as is; adapt other loggers
+ * (pino, winston, ...) with a small wrapper.
+ */
+export interface FlenseLogger {
+  debug(message: string, data?: Record<string, unknown>): void;
+  info(message: string, data?: Record<string, unknown>): void;
+  warn(message: string, data?: Record<string, unknown>): void;
+  error(message: string, data?: Record<string, unknown>): void;
+}
+
+/**
+ * Events emitted by {@link Flense.on}, with their payloads.
+ */
+export interface FlenseEvents {
+  /** An HTTP request to the API is about to be sent (once per attempt) */
+  request: {
+    /** Correlates the request with its `response` event */
+    requestId: number;
+    method: string;
+    url: string;
+  };
+
+  /** An HTTP request finished, with a response or an error */
+  response: {
+    requestId: number;
+    method: string;
+    url: string;
+    /** HTTP status, or `null` if the request failed without a response */
+    status: number | null;
+    /** Milliseconds until the response headers arrived */
+    duration: number;
+    /** The network error or timeout, if there was no response */
+    error?: unknown;
+  };
+
+  /** A file was uploaded */
+  upload: {
+    filename: string;
+    /** Bytes uploaded */
+    bytes: number;
+    /** Milliseconds the upload took, until the job was created */
+    duration: number;
+    /** Whether it was a chunked, resumable upload */
+    resumable: boolean;
+  };
+
+  /** A result was served from a cache instead of being parsed again */
+  cacheHit: {
+    /** Job ID the result is reported under */
+    jobId: string;
+    filename: string;
+    /** The client-side cache or the API's content-hash cache */
+    source: "client" | "server";
+  };
+
+  /** A parse job was created */
+  jobCreated: {
+    jobId: string;
+    /** Filename, or the document URL for `parseUrl()` */
+    document: string;
+    /** Milliseconds from the parse call until the job existed, upload included */
+    duration: number;
+  };
+
+  /** The client saw a job finish (once per `wait()`/`subscribe()` that observed it) */
+  jobCompleted: {
+    jobId: string;
+    state: Extract<JobState, "completed" | "failed" | "cancelled">;
+    /** Milliseconds the job waited in the queue, if reported by the API */
+    queueTime: number | null;
+    /** Milliseconds the job was processed, if reported by the API */
+    processingTime: number | null;
+    /** The job's final status */
+    status: JobStatus;
+  };
+
+  /** The remaining parse quota dropped below `quotaWarning.threshold` */
+  quotaWarning: Quota & {
+    threshold: number;
+  };
+}
+
+/**
+ * Listener for a {@link FlenseEvents} event.
+ */
+export type FlenseEventListener<K extends keyof FlenseEvents> = (
+  event: FlenseEvents[K]
+) => void;
+
+const LEVELS: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3 };
+
+/**
+ * Level-filtered logging and event dispatch for one client.
+ */
+export class Observer {
+  private listeners = new Map<keyof FlenseEvents, Set<(event: never) => void>>();
+  private nextRequestId = 1;
+
+  constructor(
+    private logger: FlenseLogger | null,
+    private level: LogLevel = "info"
+  ) {}
+
+  log(level: LogLevel, message: string, data?: Record<string, unknown>): void {
+    if (!this.logger || LEVELS[level] < LEVELS[this.level]) return;
+    try {
+      this.logger[level](`[flense] ${message}`, data);
+    } catch {
+      // Logging must never break a request
+    }
+  }
+
+  on<K extends keyof FlenseEvents>(event: K, listener: FlenseEventListener<K>): void {
+    let listeners = this.listeners.get(event);
+    if (!listeners) this.listeners.set(event, (listeners = new Set()));
+    listeners.add(listener);
+  }
+
+  off<K extends keyof FlenseEvents>(event: K, listener: FlenseEventListener<K>): void {
+    this.listeners.get(event)?.delete(listener);
+  }
+
+  emit<K extends keyof FlenseEvents>(event: K, payload: FlenseEvents[K]): void {
+    const listeners = this.listeners.get(event) as
+      | Set<FlenseEventListener<K>>
+      | undefined;
+    for (const listener of listeners ?? []) {
+      try {
+        listener(payload);
+      } catch (e) {
+        this.log("warn", `"${event}" listener threw`, { error: e });
+      }
+    }
+  }
+
+  /**
+   * Middleware that logs every request and emits `request`/`response` events.
+   */
+  middleware(): FlenseMiddleware {
+    const started = new WeakMap<Request, { requestId: number; time: number }>();
+
+    const finish = (request: Request, status: number | null, error?: unknown) => {
+      const start = started.get(request);
+      if (!start) return;
+      const duration = Date.now() - start.time;
+      const { requestId } = start;
+      this.emit("response", {
+        requestId,
+        method: request.method,
+        url: request.url,
+        status,
+        duration,
+        ...(error !== undefined && { error }),
+      });
+      if (error !== undefined) {
+        this.log("warn", `${request.method} ${request.url} failed after ${duration}ms`, {
+          requestId,
+          error,
+        });
+      } else {
+        this.log("debug", `${request.method} ${request.url} → ${status} (${duration}ms)`, {
+          requestId,
+        });
+      }
+    };
+
+    return {
+      onRequest: (request) => {
+        const requestId = this.nextRequestId++;
+        started.set(request, { requestId, time: Date.now() });
+        this.emit("request", { requestId, method: request.method, url: request.url });
+        this.log("debug", `${request.method} ${request.url}`, {
+          requestId,
+          headers: redactHeaders(request.headers),
+        });
+      },
+      onResponse: (response, request) => finish(request, response.status),
+      onError: (error, request) => finish(request, null, error),
+    };
+  }
+}
+
+/**
+ * Copy headers for logging, masking credentials.
+ */
+export function redactHeaders(headers: Headers): Record<string, string> {
+  const result: Record<string, string> = {};
+  headers.forEach((value, name) => {
+    result[name] = /^(authorization|cookie|x-api-key)$/i.test(name)
+      ? value.replace(/^(Bearer\s+)?.*$/i, "$1[redacted]")
+      : value;
+  });
+  return result;
+}
+
+function elapsed(from?: string, to?: string): number | null {
+  if (!from || !to) return null;
+  const ms = Date.parse(to) - Date.parse(from);
+  return Number.isNaN(ms) ? null : ms;
+}
+
+/**
+ * Queue and processing times of a finished job, from its status timestamps.
+ */
+export function jobTimings(status: JobStatus): {
+  queueTime: number | null;
+  processingTime: number | null;
+} {
+  return {
+    queueTime: elapsed(status.createdOn, status.startedOn),
+    processingTime:
+      status.output?.processingTime ?? elapsed(status.startedOn, status.completedOn),
+  };
+}
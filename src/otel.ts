@@ -0,0 +1,159 @@
+/**
+ * OpenTelemetry spans for client events.
+ *
+ * The adapter only relies on the shape of an OpenTelemetry `Tracer`, so
+ * `@opentelemetry/api` is not a dependency of this package.
+ *
+ * @example
+ * ```typescript
+ * import { trace } from '@opentelemetry/api';
+ * import { Flense, instrumentOpenTelemetry } from 'flense';
+ *
+ * const flense = new Flense();
+ * instrumentOpenTelemetry(flense, trace.getTracer('flense'));
+ * ```
+ *
+ * @module
+ */
+
+import type { Flense } from "./index.js";
+
+/** `SpanStatusCode.ERROR` in `@opentelemetry/api` */
+const STATUS_ERROR = 2;
+
+/**
+ * The parts of an OpenTelemetry `Span` the adapter uses.
+ */
+export interface OpenTelemetrySpan {
+  setAttribute(key: string, value: string | number | boolean): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  end(endTime?: number): void;
+}
+
+/**
+ * The parts of an OpenTelemetry `Tracer` the adapter uses.
+ */
+export interface OpenTelemetryTracer {
+  startSpan(
+    name: string,
+    options?: {
+      attributes?: Record<string, string | number | boolean>;
+      startTime?: number;
+    }
+  ): OpenTelemetrySpan;
+}
+
+/**
+ * Record a client's activity as OpenTelemetry spans:
+ *
+ * - `flense.request` for every HTTP request attempt
+ * - `flense.upload` for every upload, with the bytes sent
+ * - `flense.job` from job creation until the client sees the job finish,
+ *   with `flense.job.queue_time` and `flense.job.processing_time` attributes
+ * - `flense.cache_hit` for results served from a cache
+ *
+ * Job spans end when `wait()` or `subscribe()` observes the outcome; jobs
+ * that are never waited for keep their span open until the adapter is
+ * removed.
+ *
+ * @param flense - The client to instrument
+ * @param tracer - An OpenTelemetry tracer, e.g. `trace.getTracer('flense')`
+ * @returns Function that removes the instrumentation and ends open spans
+ */
+export function instrumentOpenTelemetry(
+  flense: Flense,
+  tracer: OpenTelemetryTracer
+): () => void {
+  const requests = new Map<number, OpenTelemetrySpan>();
+  const jobs = new Map<string, OpenTelemetrySpan>();
+
+  const unsubscribe = [
+    flense.on("request", ({ requestId, method, url }) => {
+      requests.set(
+        requestId,
+        tracer.startSpan("flense.request", {
+          attributes: { "http.request.method": method, "url.full": url },
+        })
+      );
+    }),
+
+    flense.on("response", ({ requestId, status, error }) => {
+      const span = requests.get(requestId);
+      if (!span) return;
+      requests.delete(requestId);
+      if (status !== null) {
+        span.setAttribute("http.response.status_code", status);
+      }
+      if (error !== undefined || (status !== null && status >= 400)) {
+        span.setStatus({
+          code: STATUS_ERROR,
+          message: error instanceof Error ? error.message : `HTTP ${status}`,
+        });
+      }
+      span.end();
+    }),
+
+    flense.on("upload", ({ filename, bytes, duration, resumable }) => {
+      const end = Date.now();
+      tracer
+        .startSpan("flense.upload", {
+          attributes: {
+            "flense.filename": filename,
+            "flense.upload.bytes": bytes,
+            "flense.upload.resumable": resumable,
+          },
+          startTime: end - duration,
+        })
+        .end(end);
+    }),
+
+    flense.on("cacheHit", ({ jobId, filename, source }) => {
+      tracer
+        .startSpan("flense.cache_hit", {
+          attributes: {
+            "flense.job.id": jobId,
+            "flense.filename": filename,
+            "flense.cache.source": source,
+          },
+        })
+        .end();
+    }),
+
+    flense.on("jobCreated", ({ jobId, document, duration }) => {
+      jobs.set(
+        jobId,
+        tracer.startSpan("flense.job", {
+          attributes: { "flense.job.id": jobId, "flense.document": document },
+          startTime: Date.now() - duration,
+        })
+      );
+    }),
+
+    flense.on("jobCompleted", ({ jobId, state, queueTime, processingTime, status }) => {
+      let span = jobs.get(jobId);
+      jobs.delete(jobId);
+      // Jobs created elsewhere (e.g. reattached with flense.job()) get a
+      // span from the time the API created them
+      span ??= tracer.startSpan("flense.job", {
+        attributes: { "flense.job.id": jobId },
+        ...(status.createdOn && { startTime: Date.parse(status.createdOn) }),
+      });
+      span.setAttribute("flense.job.state", state);
+      if (queueTime !== null) span.setAttribute("flense.job.queue_time", queueTime);
+      if (processingTime !== null) {
+        span.setAttribute("flense.job.processing_time", processingTime);
+      }
+      if (state === "failed") {
+        span.setStatus({ code: STATUS_ERROR, message: status.error });
+      }
+      span.end();
+    }),
+  ];
+
+  return () => {
+    for (const off of unsubscribe) off();
+    for (const span of [...requests.values(), ...jobs.values()]) span.end();
+    requests.clear();
+    jobs.clear();
+  };
+}
@@ -0,0 +1,111 @@
+/**
+ * Page range selection for `.withPages()` and per-range options.
+ *
+ * Ranges are 1-indexed and inclusive, written as `"1-5,12"`. An open range
+ * such as `"380-"` runs to the last page.
+ *
+ * @module
+ */
+
+import { FlenseError } from "./errors.js";
+
+/**
+ * Pages to parse: a range string such as `"1-5,12"` or `"380-"`, or a list
+ * of page numbers.
+ */
+export type PageSelection = string | number[];
+
+interface PageRange {
+  start: number;
+  /** Last page, or `null` for the end of the document */
+  end: number | null;
+}
+
+const RANGE = /^(\d+)(?:\s*-\s*(\d*))?$/;
+
+function parsePageRanges(pages: PageSelection): PageRange[] {
+  const ranges: PageRange[] =
+    typeof pages === "string"
+      ? pages
+          .split(",")
+          .map((part) => part.trim())
+          .filter(Boolean)
+          .map((part) => {
+            const match = RANGE.exec(part);
+            const start = Number(match?.[1]);
+            const end =
+              match?.[2] === undefined ? start : match[2] ? Number(match[2]) : null;
+            if (!match || start < 1 || (end !== null && end < start)) {
+              throw new FlenseError(`Invalid page range "${part}"`);
+            }
+            return { start, end };
+          })
+      : pages.map((page) => {
+          if (!Number.isInteger(page) || page < 1) {
+            throw new FlenseError(`Invalid page number ${page}`);
+          }
+          return { start: page, end: page };
+        });
+
+  if (ranges.length === 0) {
+    throw new FlenseError("No pages selected");
+  }
+
+  // Sort and merge overlapping or adjacent ranges
+  ranges.sort((a, b) => a.start - b.start);
+  const merged: PageRange[] = [ranges[0]!];
+  for (const range of ranges.slice(1)) {
+    const last = merged[merged.length - 1]!;
+    if (last.end === null || range.start <= last.end + 1) {
+      last.end =
+        last.end === null || range.end === null
+          ? null
+          : Math.max(last.end, range.end);
+    } else {
+      merged.push(range);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Validate a page selection and format it as a canonical range string.
+ *
+ * @param pages - Range string or page numbers
+ * @returns Sorted, merged ranges, e.g. `[3, 1, 2, 12]` becomes `"1-3,12"`
+ * @throws {@link FlenseError} if a range is malformed or empty
+ */
+export function formatPageRanges(pages: PageSelection): string {
+  return parsePageRanges(pages)
+    .map(({ start, end }) =>
+      end === start ? `${start}` : `${start}-${end ?? ""}`
+    )
+    .join(",");
+}
+
+/**
+ * Count the pages of a document that a selection covers.
+ *
+ * @param pages - Range string or page numbers
+ * @param pageCount - Number of pages in the document
+ */
+export function countSelectedPages(pages: PageSelection, pageCount: number): number {
+  return parsePageRanges(pages).reduce((count, { start, end }) => {
+    const last = Math.min(end ?? pageCount, pageCount);
+    return count + Math.max(0, last - start + 1);
+  }, 0);
+}
+
+/**
+ * Find the first selected page after a given page.
+ *
+ * @param pages - Range string or page numbers
+ * @param after - Page number to search after (`0` for the first page)
+ * @returns The page number, or `null` if no selected page follows
+ */
+export function nextSelectedPage(pages: PageSelection, after: number): number | null {
+  for (const { start, end } of parsePageRanges(pages)) {
+    if (end === null || end > after) return Math.max(start, after + 1);
+  }
+  return null;
+}
@@ -0,0 +1,370 @@
+/**
+ * Server-side proxy that forwards Flense requests with a server-held API key.
+ *
+ * Browser code (including the React hooks) talks to the proxy with
+ * `new Flense({ proxyUrl })`, so the secret API key never leaves the server.
+ *
+ * @example Next.js route handler (`app/api/flense/[...path]/route.ts`)
+ * ```typescript
+ * import { createProxyHandler } from 'flense';
+ *
+ * const handler = createProxyHandler({
+ *   basePath: '/api/flense',
+ *   authorize: async (request) => Boolean(await getSession(request)),
+ * });
+ *
+ * export { handler as GET, handler as POST };
+ * ```
+ *
+ * @example Node.js http server
+ * ```typescript
+ * import http from 'node:http';
+ * import { createProxyHandler, toNodeListener } from 'flense';
+ *
+ * const handler = createProxyHandler({ basePath: '/api/flense' });
+ * http.createServer(toNodeListener(handler)).listen(3000);
+ * ```
+ *
+ * @module
+ */
+
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { FlenseAuthError } from "./errors.js";
+
+/**
+ * The Flense API call a proxied request maps to.
+ */
+export type ProxyOperation =
+  | { type: "createJob" }
+  | { type: "listJobs" }
+  | { type: "upload" }
+  | { type: "parseSync" }
+  | { type: "status"; jobId: string }
+  | { type: "subscribe"; jobId: string }
+  | { type: "cancel"; jobId: string }
+  | { type: "usage" };
+
+/**
+ * A Web-standard request handler.
+ */
+export type ProxyHandler = (request: Request) => Promise<Response>;
+
+/**
+ * Options for {@link createProxyHandler}.
+ */
+export interface ProxyHandlerOptions {
+  /**
+   * Flense API key held by the server.
+   * Defaults to the `FLENSE_API_KEY` environment variable.
+   */
+  apiKey?: string;
+
+  /**
+   * Base URL of the Flense API to forward to.
+   * @default "https://api.flense.dev"
+   */
+  baseUrl?: string;
+
+  /**
+   * Path prefix the proxy is mounted at, stripped before forwarding.
+   * Must match the client's `proxyUrl` path.
+   * @default ""
+   */
+  basePath?: string;
+
+  /**
+   * Decide whether a request may proceed, e.g. by checking the user's
+   * session and per-user limits. Return `false` to reject with 403, or a
+   * `Response` to send it instead (for example a 429).
+   */
+  authorize?: (
+    request: Request,
+    operation: ProxyOperation
+  ) => boolean | Response | Promise<boolean | Response>;
+
+  /**
+   * Called after a job was created through the proxy, e.g. to record which
+   * user owns it so later `status`/`subscribe` calls can be authorized.
+   */
+  onJobCreated?: (request: Request, jobId: string) => void | Promise<void>;
+
+  /**
+   * Reject uploads larger than this many bytes with 413. For resumable
+   * uploads the limit applies to each chunk.
+   * @default no limit
+   */
+  maxUploadBytes?: number;
+}
+
+const FORWARDED_REQUEST_HEADERS = [
+  "accept",
+  "content-type",
+  "content-length",
+  "content-range",
+  "idempotency-key",
+  "last-event-id",
+];
+
+const FORWARDED_RESPONSE_HEADERS = [
+  "content-type",
+  "cache-control",
+  "retry-after",
+  "x-request-id",
+];
+
+function jsonResponse(status: number, error: string): Response {
+  return new Response(JSON.stringify({ success: false, error }), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+/**
+ * Map a proxied method and path to the Flense API operation it performs.
+ * Anything not on this list is rejected, so the proxy cannot be used to
+ * reach other API endpoints with the server's key.
+ */
+function matchOperation(method: string, path: string): ProxyOperation | null {
+  if (method === "POST" && path === "/v1/queue/jobs") return { type: "createJob" };
+  if (method === "GET" && path === "/v1/queue/jobs") return { type: "listJobs" };
+  if (method === "POST" && path === "/v1/queue/parse") return { type: "upload" };
+  if (method === "POST" && path === "/v1/flense/") return { type: "parseSync" };
+  if (method === "GET" && path === "/v1/usage") return { type: "usage" };
+
+  // Resumable upload sessions: create, query, append chunk, complete
+  if (method === "POST" && path === "/v1/uploads") return { type: "upload" };
+  const upload = /^\/v1\/uploads\/[^/]+(\/complete)?$/.exec(path);
+  if (upload) {
+    if (upload[1]) return method === "POST" ? { type: "upload" } : null;
+    return method === "GET" || method === "PUT" ? { type: "upload" } : null;
+  }
+
+  const match = /^\/v1\/queue\/jobs\/([^/]+)(\/subscribe|\/cancel)?$/.exec(path);
+  if (!match) return null;
+
+  const jobId = decodeURIComponent(match[1]!);
+  if (method === "GET" && !match[2]) return { type: "status", jobId };
+  if (method === "GET" && match[2] === "/subscribe") return { type: "subscribe", jobId };
+  if (method === "POST" && match[2] === "/cancel") return { type: "cancel", jobId };
+  return null;
+}
+
+function limitBody(
+  body: ReadableStream<Uint8Array>,
+  maxBytes: number,
+  onExceeded: () => void
+): ReadableStream<Uint8Array> {
+  let received = 0;
+  return body.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        received += chunk.byteLength;
+        if (received > maxBytes) {
+          onExceeded();
+          controller.error(new Error("Upload exceeds size limit"));
+          return;
+        }
+        controller.enqueue(chunk);
+      },
+    })
+  );
+}
+
+/**
+ * Create a request handler that forwards Flense client calls to the API
+ * using a server-held key.
+ *
+ * Only the endpoints used by the client are forwarded: job creation and
+ * listing, uploads, synchronous parsing, job status, SSE subscriptions,
+ * cancellation and account usage. Request and response bodies are streamed, not buffered.
+ *
+ * @param options - API key, mount path and authorization hooks
+ * @returns A `(Request) => Promise<Response>` handler
+ * @throws {@link FlenseAuthError} if no API key is provided or found in environment
+ */
+export function createProxyHandler(
+  options: ProxyHandlerOptions = {}
+): ProxyHandler {
+  const apiKey = options.apiKey ?? process.env.FLENSE_API_KEY;
+  if (!apiKey) {
+    throw new FlenseAuthError(
+      "Missing API key. Provide it via options.apiKey or set FLENSE_API_KEY environment variable.",
+      { status: 401 }
+    );
+  }
+  const baseUrl = (options.baseUrl ?? "https://api.flense.dev").replace(/\/+$/, "");
+  const basePath = (options.basePath ?? "").replace(/\/+$/, "");
+
+  return async (request) => {
+    const url = new URL(request.url);
+    // Match whole segments, so "/api/flense" does not accept "/api/flensex"
+    if (url.pathname !== basePath && !url.pathname.startsWith(`${basePath}/`)) {
+      return jsonResponse(404, "Not found");
+    }
+
+    const path = url.pathname.slice(basePath.length);
+    const method = request.method.toUpperCase();
+    const operation = matchOperation(method, path);
+    if (!operation) {
+      return jsonResponse(404, "Not found");
+    }
+
+    if (options.authorize) {
+      const decision = await options.authorize(request, operation);
+      if (decision instanceof Response) return decision;
+      if (!decision) return jsonResponse(403, "Forbidden");
+    }
+
+    const hasBody = method === "POST" || method === "PUT";
+    const contentLength = Number(request.headers.get("content-length"));
+    if (
+      hasBody &&
+      options.maxUploadBytes !== undefined &&
+      contentLength > options.maxUploadBytes
+    ) {
+      return jsonResponse(413, "Upload exceeds size limit");
+    }
+
+    const headers = new Headers({ Authorization: `Bearer ${apiKey}` });
+    for (const name of FORWARDED_REQUEST_HEADERS) {
+      const value = request.headers.get(name);
+      if (value !== null) headers.set(name, value);
+    }
+
+    // Content-Length can be absent (chunked uploads), so also count bytes
+    let tooLarge = false;
+    let body: ReadableStream<Uint8Array> | null = hasBody ? request.body : null;
+    if (body && options.maxUploadBytes !== undefined) {
+      body = limitBody(body, options.maxUploadBytes, () => {
+        tooLarge = true;
+      });
+    }
+
+    let upstream: Response;
+    try {
+      upstream = await fetch(`${baseUrl}${path}${url.search}`, {
+        method,
+        headers,
+        body,
+        signal: request.signal,
+        // Required by Node.js fetch for streaming request bodies
+        duplex: "half",
+      } as RequestInit);
+    } catch (e) {
+      if (tooLarge) return jsonResponse(413, "Upload exceeds size limit");
+      if (request.signal.aborted) throw e;
+      return jsonResponse(
+        502,
+        `Failed to reach Flense API: ${e instanceof Error ? e.message : e}`
+      );
+    }
+
+    if (
+      options.onJobCreated &&
+      upstream.ok &&
+      (operation.type === "createJob" || operation.type === "upload")
+    ) {
+      const created = (await upstream
+        .clone()
+        .json()
+        .catch(() => ({}))) as { jobId?: string };
+      if (created.jobId) await options.onJobCreated(request, created.jobId);
+    }
+
+    const responseHeaders = new Headers();
+    for (const name of FORWARDED_RESPONSE_HEADERS) {
+      const value = upstream.headers.get(name);
+      if (value !== null) responseHeaders.set(name, value);
+    }
+    if (operation.type === "subscribe") {
+      // Stop reverse proxies from buffering the event stream
+      responseHeaders.set("X-Accel-Buffering", "no");
+    }
+
+    return new Response(upstream.body, {
+      status: upstream.status,
+      headers: responseHeaders,
+    });
+  };
+}
+
+function streamFromIterable(
+  iterable: AsyncIterable<Uint8Array>
+): ReadableStream<Uint8Array> {
+  const iterator = iterable[Symbol.asyncIterator]();
+  return new ReadableStream({
+    async pull(controller) {
+      const { done, value } = await iterator.next();
+      if (done) controller.close();
+      else controller.enqueue(value);
+    },
+    async cancel() {
+      await iterator.return?.();
+    },
+  });
+}
+
+/**
+ * Adapt a Web-standard handler to a Node.js `http` request listener.
+ *
+ * @param handler - Handler from {@link createProxyHandler}
+ * @returns Listener for `http.createServer()` or Express-style routers
+ */
+export function toNodeListener(
+  handler: ProxyHandler
+): (req: IncomingMessage, res: ServerResponse) => Promise<void> {
+  return async (req, res) => {
+    const controller = new AbortController();
+    res.on("close", () => controller.abort());
+
+    const headers = new Headers();
+    for (const [name, value] of Object.entries(req.headers)) {
+      if (Array.isArray(value)) {
+        for (const item of value) headers.append(name, item);
+      } else if (value !== undefined) {
+        headers.set(name, value);
+      }
+    }
+
+    const method = req.method ?? "GET";
+    const hasBody = method !== "GET" && method !== "HEAD";
+    const url = new URL(req.url ?? "/", `http://${req.headers.host ?? "localhost"}`);
+
+    try {
+      const response = await handler(
+        new Request(url, {
+          method,
+          headers,
+          body: hasBody ? streamFromIterable(req) : undefined,
+          signal: controller.signal,
+          duplex: "half",
+        } as RequestInit)
+      );
+
+      res.writeHead(response.status, Object.fromEntries(response.headers));
+      if (!response.body) {
+        res.end();
+        return;
+      }
+
+      const reader = response.body.getReader();
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        res.write(value);
+      }
+      res.end();
+    } catch (e) {
+      if (controller.signal.aborted) return;
+      if (!res.headersSent) {
+        res.writeHead(500, { "Content-Type": "application/json" });
+      }
+      res.end(
+        JSON.stringify({
+          success: false,
+          error: e instanceof Error ? e.message : String(e),
+        })
+      );
+    }
+  };
+}
@@ -3,6 +3,7 @@
 import { useState, useEffect, useRef, useCallback, useMemo } from "react";
 import {
   Flense,
+  FlenseJobFailedError,
   type FlenseConfig,
   type JobStatus,
   type ProgressUpdate,
@@ -10,9 +11,36 @@ import {
   type JobState,
   type ParseJob,
   type ParseOptions,
-} from "./index";
+  type ValidationIssue,
+  type ValidationOptions,
+  type ValidationResult,
+} from "./index.js";
 
-export type { JobStatus, ProgressUpdate, ContentChunk, JobState, ParseOptions };
+export type {
+  JobStatus,
+  ProgressUpdate,
+  ContentChunk,
+  JobState,
+  ParseOptions,
+  ValidationIssue,
+  ValidationOptions,
+  ValidationResult,
+};
+export {
+  FlenseError,
+  FlenseAPIError,
+  FlenseAuthError,
+  FlenseValidationError,
+  FlenseRateLimitError,
+  FlenseQuotaExceededError,
+  FlenseJobFailedError,
+  FlenseJobCancelledError,
+  FlenseTimeoutError,
+  FlenseNetworkError,
+  FlenseInvalidFileError,
+  FlenseUploadError,
+  FlenseWebhookVerificationError,
+} from "./index.js";
 
 export interface UseFlenseOptions extends FlenseConfig {}
 
@@ -37,12 +65,21 @@ export interface UseParseJobReturn {
   contentChunks: ContentChunk[];
   /** Full content (joined from chunks or final output) */
   content: string | null;
-  /** Error if job failed */
+  /**
+   * Error if job failed. Failed jobs set a {@link FlenseJobFailedError};
+   * files rejected before upload set a {@link FlenseInvalidFileError} with
+   * the validation `issues`; API and connection problems set the matching
+   * `FlenseError` subclass.
+   */
   error: Error | null;
-  /** Parse a file with optional configuration */
+  /** Check a file (e.g. on selection) without uploading it */
+  validate: (file: File, options?: ValidationOptions) => Promise<ValidationResult>;
+  /** Parse a file with optional configuration; invalid files are rejected before upload */
   parseFile: (file: File, options?: ParseOptions) => void;
   /** Parse a URL with optional configuration */
   parseUrl: (url: string, options?: ParseOptions) => void;
+  /** Cancel the current job (aborts the upload if it is still in flight) */
+  cancel: () => void;
   /** Reset state for a new job */
   reset: () => void;
 }
@@ -61,7 +98,7 @@ export function useFlense(options: UseFlenseOptions = {}): Flense | null {
       // API key not available yet
       setClient(null);
     }
-  }, [options.apiKey, options.baseUrl]);
+  }, [options.apiKey, options.baseUrl, options.proxyUrl]);
 
   return client;
 }
@@ -89,6 +126,22 @@ export function useFlense(options: UseFlenseOptions = {}): Flense | null {
  *   );
  * }
  * ```
+ *
+ * @example Reject files as soon as they are picked
+ * ```tsx
+ * const { validate, parseFile } = useParseJob({ validation: { maxPages: 200 } });
+ *
+ * async function onSelect(file: File) {
+ *   const { valid, issues } = await validate(file);
+ *   if (!valid) return setWarnings(issues.map((issue) => issue.message));
+ *   parseFile(file);
+ * }
+ * ```
+ *
+ * @example Without exposing the API key (see `createProxyHandler`)
+ * ```tsx
+ * const { parseFile, content } = useParseJob({ proxyUrl: '/api/flense' });
+ * ```
  */
 export function useParseJob(
   config: UseFlenseOptions & UseParseJobOptions = {}
@@ -102,6 +155,7 @@ export function useParseJob(
 
   const clientRef = useRef<Flense | null>(null);
   const unsubscribeRef = useRef<(() => void) | null>(null);
+  const jobRef = useRef<ParseJob | null>(null);
   const callbacksRef = useRef({ onProgress, onContent, onComplete, onFailed, onError });
 
   // Update callbacks ref
@@ -113,7 +167,7 @@ export function useParseJob(
       clientRef.current = new Flense(flenseConfig);
     }
     return clientRef.current;
-  }, [flenseConfig.apiKey, flenseConfig.baseUrl]);
+  }, [flenseConfig.apiKey, flenseConfig.baseUrl, flenseConfig.proxyUrl]);
 
   // Cleanup on unmount
   useEffect(() => {
@@ -125,6 +179,7 @@ export function useParseJob(
   const reset = useCallback(() => {
     unsubscribeRef.current?.();
     unsubscribeRef.current = null;
+    jobRef.current = null;
     setStatus(null);
     setProgress(null);
     setContentChunks([]);
@@ -142,6 +197,7 @@ export function useParseJob(
       // Cancel any existing subscription
       unsubscribeRef.current?.();
 
+      jobRef.current = job;
       unsubscribeRef.current = job.subscribe({
         onStatus: (s) => {
           setStatus(s);
@@ -160,7 +216,7 @@ export function useParseJob(
         },
         onFailed: (s) => {
           setStatus(s);
-          setError(new Error(s.error || "Job failed"));
+          setError(new FlenseJobFailedError(s));
           callbacksRef.current.onFailed?.(s);
         },
         onError: (e) => {
@@ -178,11 +234,7 @@ export function useParseJob(
         const client = getClient();
         let job = client.parseFile(file, file.name);
         // Apply options using fluent API
-        if (options?.ocr !== undefined) job = job.withOCR(options.ocr);
-        if (options?.tables !== undefined) job = job.withTables(options.tables);
-        if (options?.images !== undefined) job = job.withImages(options.images);
-        if (options?.pageStreaming !== undefined) job = job.withPageStreaming(options.pageStreaming);
-        if (options?.caching === false) job = job.disableCaching();
+        if (options) job = job.withOptions(options);
         subscribeToJob(job);
       } catch (e) {
         const err = e instanceof Error ? e : new Error(String(e));
@@ -193,17 +245,19 @@ export function useParseJob(
     [getClient, subscribeToJob]
   );
 
+  const validate = useCallback(
+    (file: File, options?: ValidationOptions) =>
+      getClient().validate(file, file.name, options),
+    [getClient]
+  );
+
   const parseUrl = useCallback(
     (url: string, options?: ParseOptions) => {
       try {
         const client = getClient();
         let job = client.parseUrl(url);
         // Apply options using fluent API
-        if (options?.ocr !== undefined) job = job.withOCR(options.ocr);
-        if (options?.tables !== undefined) job = job.withTables(options.tables);
-        if (options?.images !== undefined) job = job.withImages(options.images);
-        if (options?.pageStreaming !== undefined) job = job.withPageStreaming(options.pageStreaming);
-        if (options?.caching === false) job = job.disableCaching();
+        if (options) job = job.withOptions(options);
         subscribeToJob(job);
       } catch (e) {
         const err = e instanceof Error ? e : new Error(String(e));
@@ -214,6 +268,14 @@ export function useParseJob(
     [getClient, subscribeToJob]
   );
 
+  const cancel = useCallback(() => {
+    jobRef.current?.cancel().catch((e: unknown) => {
+      const err = e instanceof Error ? e : new Error(String(e));
+      setError(err);
+      callbacksRef.current.onError?.(err);
+    });
+  }, []);
+
   const isProcessing = useMemo(
     () => status !== null && !["completed", "failed", "cancelled"].includes(status.state),
     [status]
@@ -246,8 +308,10 @@ export function useParseJob(
     contentChunks,
     content,
     error,
+    validate,
     parseFile,
     parseUrl,
+    cancel,
     reset,
   };
 }
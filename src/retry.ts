@@ -0,0 +1,156 @@
+/**
+ * Retry policy for requests to the Flense API.
+ *
+ * @module
+ */
+
+import {
+  FlenseAPIError,
+  FlenseNetworkError,
+  FlenseQuotaExceededError,
+  FlenseTimeoutError,
+} from "./errors.js";
+
+/**
+ * Configuration for automatic request retries.
+ *
+ * Only requests that are safe to repeat are retried: `GET` requests, and
+ * `POST` requests that carry an `Idempotency-Key` (job creation and uploads).
+ */
+export interface RetryOptions {
+  /**
+   * Maximum number of attempts, including the first one.
+   * @default 3
+   */
+  maxAttempts?: number;
+
+  /**
+   * Delay before the first retry, in milliseconds.
+   * @default 500
+   */
+  initialDelay?: number;
+
+  /**
+   * Upper bound for any single retry delay, in milliseconds.
+   * A `Retry-After` longer than this is not waited for; the error is thrown instead.
+   * @default 30000
+   */
+  maxDelay?: number;
+
+  /**
+   * Multiplier applied to the delay after each attempt.
+   * @default 2
+   */
+  backoffFactor?: number;
+
+  /**
+   * Randomize each delay between zero and the computed backoff ("full jitter")
+   * so that many clients do not retry in lockstep.
+   * @default true
+   */
+  jitter?: boolean;
+
+  /**
+   * HTTP status codes that are retried.
+   * @default [408, 429, 500, 502, 503, 504]
+   */
+  retryStatuses?: number[];
+
+  /**
+   * Retry requests that failed with a {@link FlenseNetworkError} or timed
+   * out (see the `timeout` option).
+   * @default true
+   */
+  retryNetworkErrors?: boolean;
+
+  /**
+   * Wait for the server's `Retry-After` header (on 429, 503 or any other
+   * retried response) instead of the computed backoff.
+   * @default true
+   */
+  respectRetryAfter?: boolean;
+}
+
+/** Fully resolved retry policy. */
+export type RetryPolicy = Required<RetryOptions>;
+
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  initialDelay: 500,
+  maxDelay: 30000,
+  backoffFactor: 2,
+  jitter: true,
+  retryStatuses: [408, 429, 500, 502, 503, 504],
+  retryNetworkErrors: true,
+  respectRetryAfter: true,
+};
+
+/**
+ * Merge user retry options with the defaults. `false` disables retries.
+ */
+export function resolveRetryPolicy(
+  options: RetryOptions | false | undefined
+): RetryPolicy {
+  if (options === false) {
+    return { ...DEFAULT_RETRY_POLICY, maxAttempts: 1 };
+  }
+  // Options explicitly set to `undefined` keep their defaults
+  const defined = Object.entries(options ?? {}).filter(
+    ([, value]) => value !== undefined
+  );
+  return { ...DEFAULT_RETRY_POLICY, ...Object.fromEntries(defined) };
+}
+
+/**
+ * Decide whether a failed attempt should be retried.
+ */
+export function isRetryableError(error: unknown, policy: RetryPolicy): boolean {
+  // Running out of credits will not fix itself on retry
+  if (error instanceof FlenseQuotaExceededError) return false;
+
+  if (error instanceof FlenseAPIError) {
+    if (
+      policy.respectRetryAfter &&
+      error.retryAfter !== undefined &&
+      error.retryAfter * 1000 > policy.maxDelay
+    ) {
+      return false;
+    }
+    return policy.retryStatuses.includes(error.status);
+  }
+
+  // Request timeouts are treated like dropped connections
+  if (error instanceof FlenseNetworkError || error instanceof FlenseTimeoutError) {
+    return policy.retryNetworkErrors;
+  }
+
+  return false;
+}
+
+/**
+ * Compute how long to wait before the next attempt.
+ *
+ * @param error - The error from the failed attempt
+ * @param attempt - The number of the attempt that just failed (1-based)
+ * @param policy - The retry policy
+ * @returns Delay in milliseconds
+ */
+export function getRetryDelay(
+  error: unknown,
+  attempt: number,
+  policy: RetryPolicy
+): number {
+  if (
+    policy.respectRetryAfter &&
+    error instanceof FlenseAPIError &&
+    error.retryAfter !== undefined
+  ) {
+    return Math.min(error.retryAfter * 1000, policy.maxDelay);
+  }
+
+  const backoff = Math.min(
+    policy.initialDelay * policy.backoffFactor ** (attempt - 1),
+    policy.maxDelay
+  );
+  return policy.jitter ? Math.random() * backoff : backoff;
+}
@@ -0,0 +1,300 @@
+/**
+ * Fetch-based Server-Sent Events reader.
+ *
+ * Unlike the browser `EventSource`, this reader can send an `Authorization`
+ * header and works anywhere `fetch` and `ReadableStream` are available
+ * (modern browsers, Node.js 18+, Deno, Bun, edge runtimes).
+ *
+ * @module
+ */
+
+import { FlenseError, FlenseNetworkError, createAPIError } from "./errors.js";
+
+/**
+ * A single event received from a Server-Sent Events stream.
+ */
+export interface ServerSentEvent {
+  /** Event type (`"message"` when the server did not name one) */
+  event: string;
+  /** Event payload, with multiple `data:` lines joined by newlines */
+  data: string;
+  /** Last event ID seen on the stream, if any */
+  id?: string;
+}
+
+/**
+ * Options for {@link openEventStream}.
+ */
+export interface EventStreamOptions {
+  /** Extra request headers (e.g. `Authorization`) */
+  headers?: Record<string, string>;
+  /** Called for every dispatched event */
+  onEvent: (event: ServerSentEvent) => void;
+  /** Called when the stream fails and will not be reconnected */
+  onError?: (error: Error) => void;
+  /**
+   * Called when a dropped connection is about to be re-established, with
+   * the error that ended it (`null` if the server closed the stream) and
+   * the delay before reconnecting.
+   */
+  onReconnect?: (error: Error | null, delay: number) => void;
+  /**
+   * Delay before reconnecting after a dropped connection, in milliseconds.
+   * The server can override this with a `retry:` field.
+   * @default 3000
+   */
+  retryDelay?: number;
+  /**
+   * Maximum consecutive failed connection attempts before giving up.
+   * @default 5
+   */
+  maxRetries?: number;
+  /**
+   * Function used to connect, e.g. a custom `fetch`.
+   * @default globalThis.fetch
+   */
+  fetch?: (url: string, init: RequestInit) => Promise<Response>;
+}
+
+const DEFAULT_RETRY_DELAY = 3000;
+const DEFAULT_MAX_RETRIES = 5;
+
+const LINE_BREAK = /\r\n|\r|\n/;
+
+/**
+ * Incremental parser for the `text/event-stream` format.
+ */
+class EventStreamParser {
+  private buffer = "";
+  private eventType = "";
+  private data = "";
+
+  /** The most recent `id:` field, carried across events and reconnects */
+  lastEventId: string | undefined;
+  /** The most recent valid `retry:` field, in milliseconds */
+  retry: number | undefined;
+
+  constructor(private onEvent: (event: ServerSentEvent) => void) {}
+
+  push(chunk: string): void {
+    this.buffer += chunk;
+
+    let match: RegExpExecArray | null;
+    while ((match = LINE_BREAK.exec(this.buffer))) {
+      // A trailing "\r" may be the first half of a "\r\n" split across chunks
+      if (match[0] === "\r" && match.index === this.buffer.length - 1) break;
+
+      const line = this.buffer.slice(0, match.index);
+      this.buffer = this.buffer.slice(match.index + match[0].length);
+      this.processLine(line);
+    }
+  }
+
+  /**
+   * Discard any partially received event (called when a connection drops).
+   */
+  reset(): void {
+    this.buffer = "";
+    this.eventType = "";
+    this.data = "";
+  }
+
+  private processLine(line: string): void {
+    if (line === "") {
+      this.dispatch();
+      return;
+    }
+
+    // Comment line, used by servers as a keep-alive
+    if (line.startsWith(":")) return;
+
+    const colon = line.indexOf(":");
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? "" : line.slice(colon + 1);
+    if (value.startsWith(" ")) value = value.slice(1);
+
+    switch (field) {
+      case "event":
+        this.eventType = value;
+        break;
+      case "data":
+        this.data += `${value}\n`;
+        break;
+      case "id":
+        if (!value.includes("\0")) this.lastEventId = value;
+        break;
+      case "retry":
+        if (/^\d+$/.test(value)) this.retry = parseInt(value, 10);
+        break;
+    }
+  }
+
+  private dispatch(): void {
+    const eventType = this.eventType || "message";
+    const data = this.data;
+    this.eventType = "";
+    this.data = "";
+
+    if (data === "") return;
+
+    this.onEvent({
+      event: eventType,
+      data: data.slice(0, -1),
+      id: this.lastEventId,
+    });
+  }
+}
+
+/**
+ * Open a Server-Sent Events stream using `fetch`.
+ *
+ * Dropped connections are re-established automatically after the retry
+ * delay, sending `Last-Event-ID` so the server can resume where it left off.
+ * Client errors (4xx other than 408/429) are reported immediately without
+ * reconnecting.
+ *
+ * @param url - Stream URL
+ * @param options - Headers, event callback and reconnection settings
+ * @returns Function that closes the stream and stops reconnecting
+ *
+ * @example
+ * ```typescript
+ * const close = openEventStream('https://api.flense.dev/v1/queue/jobs/job_abc/subscribe', {
+ *   headers: { Authorization: 'Bearer flense_...' },
+ *   onEvent: ({ event, data }) => console.log(event, data),
+ * });
+ * ```
+ */
+export function openEventStream(
+  url: string,
+  options: EventStreamOptions
+): () => void {
+  const controller = new AbortController();
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+  let closed = false;
+  let failures = 0;
+  let receivedEvent = false;
+
+  const parser = new EventStreamParser((event) => {
+    receivedEvent = true;
+    options.onEvent(event);
+  });
+
+  const close = () => {
+    closed = true;
+    controller.abort();
+  };
+
+  const fail = (error: Error) => {
+    if (closed) return;
+    close();
+    options.onError?.(error);
+  };
+
+  const sleep = (ms: number) =>
+    new Promise<void>((resolve) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+      const timer = setTimeout(() => {
+        controller.signal.removeEventListener("abort", onAbort);
+        resolve();
+      }, ms);
+      controller.signal.addEventListener("abort", onAbort, { once: true });
+    });
+
+  const readStream = async (): Promise<void> => {
+    const headers: Record<string, string> = {
+      Accept: "text/event-stream",
+      "Cache-Control": "no-cache",
+      ...options.headers,
+    };
+    if (parser.lastEventId !== undefined) {
+      headers["Last-Event-ID"] = parser.lastEventId;
+    }
+
+    let response: Response;
+    try {
+      response = await (options.fetch ?? globalThis.fetch)(url, {
+        headers,
+        signal: controller.signal,
+      });
+    } catch (e) {
+      if (e instanceof FlenseError) throw e;
+      throw new FlenseNetworkError(
+        `SSE connection failed: ${e instanceof Error ? e.message : e}`,
+        { cause: e }
+      );
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => "");
+      const error = createAPIError(response, errorText);
+      const retryable =
+        response.status >= 500 ||
+        response.status === 408 ||
+        response.status === 429;
+      if (!retryable) {
+        fail(error);
+      }
+      throw error;
+    }
+
+    if (!response.body) {
+      throw new FlenseNetworkError("SSE response has no body");
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    parser.reset();
+
+    try {
+      while (!closed) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        parser.push(decoder.decode(value, { stream: true }));
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  };
+
+  const run = async () => {
+    while (!closed) {
+      receivedEvent = false;
+      let lastError: Error | null = null;
+
+      try {
+        await readStream();
+      } catch (e) {
+        if (closed) return;
+        lastError = e instanceof Error ? e : new Error(String(e));
+      }
+
+      if (closed) return;
+
+      // A connection that delivered events counts as healthy
+      failures = receivedEvent ? 0 : failures + 1;
+      if (failures > maxRetries) {
+        fail(
+          lastError instanceof FlenseError
+            ? lastError
+            : new FlenseNetworkError(
+                `SSE connection error${lastError ? `: ${lastError.message}` : ""}`,
+                { cause: lastError ?? undefined }
+              )
+        );
+        return;
+      }
+
+      const delay = parser.retry ?? options.retryDelay ?? DEFAULT_RETRY_DELAY;
+      options.onReconnect?.(lastError, delay);
+      await sleep(delay);
+    }
+  };
+
+  void run();
+
+  return close;
+}
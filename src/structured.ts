@@ -0,0 +1,121 @@
+/**
+ * Types for structured parse output.
+ *
+ * Requested with `.withStructuredOutput()`, the result carries the document
+ * as typed pages and blocks next to the markdown, so tables and headings can
+ * be read directly instead of being recovered from the markdown text.
+ *
+ * @example
+ * ```typescript
+ * const { structured } = await flense.parseFile(file, 'report.pdf').withStructuredOutput().wait();
+ *
+ * for (const page of structured.pages) {
+ *   for (const block of page.blocks) {
+ *     if (block.type === 'table') console.table(block.rows);
+ *   }
+ * }
+ * ```
+ *
+ * @module
+ */
+
+/**
+ * Position of a block on its page, in PDF points (1/72 inch) with the origin
+ * at the top-left corner.
+ */
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * A section heading.
+ */
+export interface HeadingBlock {
+  type: "heading";
+  /** Heading level, 1 (top) to 6 */
+  level: 1 | 2 | 3 | 4 | 5 | 6;
+  text: string;
+  bbox?: BoundingBox;
+}
+
+/**
+ * A paragraph of body text.
+ */
+export interface ParagraphBlock {
+  type: "paragraph";
+  text: string;
+  bbox?: BoundingBox;
+}
+
+/**
+ * A bulleted or numbered list.
+ */
+export interface ListBlock {
+  type: "list";
+  /** Whether the list is numbered */
+  ordered: boolean;
+  /** Item texts, in order */
+  items: string[];
+  bbox?: BoundingBox;
+}
+
+/**
+ * A table as rows of cell texts.
+ *
+ * Merged cells are repeated in every row and column they span, so all rows
+ * have the same length.
+ */
+export interface TableBlock {
+  type: "table";
+  /** Cell texts, `rows[row][column]` */
+  rows: string[][];
+  /** Number of leading rows that are column headers */
+  headerRows: number;
+  bbox?: BoundingBox;
+}
+
+/**
+ * An image or figure.
+ */
+export interface ImageBlock {
+  type: "image";
+  /** URL of the extracted image (only with `.withImages()`) */
+  url?: string;
+  /** Caption or alternative text, if any */
+  alt?: string;
+  bbox?: BoundingBox;
+}
+
+/**
+ * A block of content on a page; branch on `type`.
+ */
+export type DocumentBlock =
+  | HeadingBlock
+  | ParagraphBlock
+  | ListBlock
+  | TableBlock
+  | ImageBlock;
+
+/**
+ * One page of a structured document.
+ */
+export interface DocumentPage {
+  /** Page number (1-indexed) */
+  page: number;
+  /** Page width in points */
+  width?: number;
+  /** Page height in points */
+  height?: number;
+  /** Content blocks in reading order */
+  blocks: DocumentBlock[];
+}
+
+/**
+ * A parsed document as pages of typed blocks.
+ */
+export interface StructuredDocument {
+  pages: DocumentPage[];
+}
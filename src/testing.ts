@@ -0,0 +1,607 @@
+/**
+ * In-process mock of the Flense API for testing code that uses the client.
+ *
+ * The mock implements job creation, uploads, synchronous parsing, job
+ * status, cancellation, usage and real Server-Sent Event subscriptions.
+ * Each job follows a scripted timeline of progress steps and page content,
+ * and ends with a result, a failure or a cache hit, so `wait()`,
+ * `subscribe()` and the React hooks can be tested without network access.
+ *
+ * @example
+ * ```typescript
+ * import { MockFlenseServer } from 'flense/testing';
+ *
+ * const server = new MockFlenseServer();
+ * server.enqueueJob({
+ *   steps: [
+ *     { delay: 10, progress: { progress: 50, stage: 'Parsing' } },
+ *     { delay: 10, content: { page: 1, content: '# Invoice' } },
+ *   ],
+ *   markdown: '# Invoice',
+ * });
+ *
+ * const flense = server.client();
+ * const result = await flense.parseFile(pdf, 'invoice.pdf').wait();
+ *
+ * expect(result.markdown).toBe('# Invoice');
+ * server.assertRequested('POST', '/v1/queue/parse');
+ * ```
+ *
+ * @module
+ */
+
+import {
+  Flense,
+  type ContentChunk,
+  type FlenseConfig,
+  type JobStatus,
+  type ProgressUpdate,
+} from "./index.js";
+import { toNodeListener } from "./proxy.js";
+import type { StructuredDocument } from "./structured.js";
+
+/**
+ * One step of a mock job's timeline.
+ */
+export interface MockJobStep {
+  /**
+   * Milliseconds after the previous step (or after the job started).
+   * @default 0
+   */
+  delay?: number;
+  /** Progress update to send */
+  progress?: ProgressUpdate;
+  /** Page content to send */
+  content?: ContentChunk;
+}
+
+/**
+ * Script for a job created on a {@link MockFlenseServer}.
+ */
+export interface MockJobScript {
+  /**
+   * Markdown of the result.
+   * @default "# Mock document\n"
+   */
+  markdown?: string;
+
+  /** Structured output of the result */
+  structured?: StructuredDocument;
+
+  /**
+   * Milliseconds the job stays queued before it becomes active.
+   * @default 0
+   */
+  queueTime?: number;
+
+  /** Progress and content sent while the job is active */
+  steps?: MockJobStep[];
+
+  /**
+   * Milliseconds between the last step and the job finishing.
+   * @default 0
+   */
+  processingTime?: number;
+
+  /** Fail the job with this error message instead of completing it */
+  error?: string;
+
+  /**
+   * Answer the upload with a cached result instead of creating a job.
+   * Applies to `parseFile()` and `parsePath()` uploads.
+   */
+  cached?: boolean;
+}
+
+/**
+ * An error response for {@link MockFlenseServer.failNext}.
+ */
+export interface MockFailure {
+  /** HTTP status to respond with */
+  status: number;
+  /**
+   * Error message in the response body.
+   * @default "Mock failure"
+   */
+  error?: string;
+  /** Error code in the response body, e.g. `"quota_exceeded"` */
+  code?: string;
+  /** Response headers, e.g. `{ "Retry-After": "1" }` */
+  headers?: Record<string, string>;
+  /** Only fail requests with this method and path, e.g. `"POST /v1/queue/parse"` */
+  match?: string;
+  /**
+   * Number of matching requests to fail.
+   * @default 1
+   */
+  times?: number;
+}
+
+/**
+ * A request received by a {@link MockFlenseServer}.
+ */
+export interface MockRequest {
+  method: string;
+  /** URL path, e.g. `"/v1/queue/jobs/job_1"` */
+  path: string;
+  /** Query parameters */
+  query: URLSearchParams;
+  headers: Headers;
+  /** Parsed JSON body, or the string fields of a multipart body */
+  body?: unknown;
+  /** The uploaded file of a multipart body */
+  file?: { name: string; size: number; type: string };
+}
+
+/**
+ * Options for {@link MockFlenseServer}.
+ */
+export interface MockServerOptions {
+  /**
+   * Require this API key as a bearer token, answering 401 otherwise.
+   * @default any key is accepted
+   */
+  apiKey?: string;
+
+  /**
+   * Milliseconds added before every response.
+   * @default 0
+   */
+  latency?: number;
+
+  /** Script for jobs created when no script is queued */
+  defaultJob?: MockJobScript;
+
+  /**
+   * Parses the account has left. Each job or cached upload uses one; once
+   * none are left, creating a job fails with 402 `quota_exceeded`.
+   * @default unlimited
+   */
+  quota?: number;
+}
+
+/** Placeholder origin for clients using {@link MockFlenseServer.fetch}. */
+const MOCK_BASE_URL = "http://flense.mock";
+
+const DEFAULT_MARKDOWN = "# Mock document\n";
+
+interface MockEvent {
+  event: string;
+  data: string;
+}
+
+interface MockJob {
+  status: JobStatus;
+  /** Every event sent for the job so far; the index is the event ID */
+  events: MockEvent[];
+  listeners: Set<() => void>;
+  timers: ReturnType<typeof setTimeout>[];
+}
+
+function json(body: unknown, status = 200, headers?: Record<string, string>): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...headers },
+  });
+}
+
+function isFinished(status: JobStatus): boolean {
+  return (
+    status.state === "completed" ||
+    status.state === "failed" ||
+    status.state === "cancelled"
+  );
+}
+
+/**
+ * Mock Flense API server.
+ *
+ * Use {@link client} for a `Flense` client wired to the mock, pass
+ * {@link fetch} as a client's `fetch`, or {@link listen} on a local port to
+ * test code that creates its own clients (Node.js only).
+ */
+export class MockFlenseServer {
+  /** Every request received, oldest first */
+  readonly requests: MockRequest[] = [];
+
+  private jobs = new Map<string, MockJob>();
+  private scripts: MockJobScript[] = [];
+  private failures: MockFailure[] = [];
+  private nextId = 1;
+  private used = 0;
+
+  constructor(private options: MockServerOptions = {}) {}
+
+  /**
+   * `fetch` implementation answering from the mock. Requests go to the mock
+   * whatever their origin.
+   */
+  readonly fetch = (input: RequestInfo | URL, init?: RequestInit): Promise<Response> =>
+    this.handle(new Request(input, init));
+
+  /**
+   * Create a client that talks to the mock.
+   *
+   * @param config - Client options; `apiKey`, `baseUrl` and `fetch` default
+   *   to values for the mock
+   */
+  client(config: FlenseConfig = {}): Flense {
+    return new Flense({
+      apiKey: this.options.apiKey ?? "flense_test",
+      baseUrl: MOCK_BASE_URL,
+      fetch: this.fetch,
+      ...config,
+    });
+  }
+
+  /**
+   * Serve the mock over HTTP on a local port (Node.js only).
+   *
+   * @param port - Port to listen on
+   * @returns The server's base URL, for a client's `baseUrl`, and a
+   *   function that stops the server
+   */
+  async listen(port = 0): Promise<{ url: string; close: () => Promise<void> }> {
+    const http = await import("node:http");
+    const server = http.createServer(toNodeListener((request) => this.handle(request)));
+    await new Promise<void>((resolve) => server.listen(port, "127.0.0.1", resolve));
+    const address = server.address();
+    const url = `http://127.0.0.1:${typeof address === "object" && address ? address.port : port}`;
+    return {
+      url,
+      close: () =>
+        new Promise<void>((resolve) => {
+          server.closeAllConnections();
+          server.close(() => resolve());
+        }),
+    };
+  }
+
+  /**
+   * Queue a script for the next job created. Scripts are used in the order
+   * they were queued; once none are left, `defaultJob` applies.
+   *
+   * @param script - The job's timeline and outcome
+   */
+  enqueueJob(script: MockJobScript = {}): this {
+    this.scripts.push(script);
+    return this;
+  }
+
+  /**
+   * Answer the next matching request(s) with an error, e.g. to test
+   * retries, rate limits or quota errors.
+   *
+   * @param failure - Status, body and which requests to fail
+   */
+  failNext(failure: MockFailure): this {
+    this.failures.push({ ...failure });
+    return this;
+  }
+
+  /**
+   * Get the current status of a job on the mock.
+   *
+   * @param jobId - The job ID
+   */
+  getJob(jobId: string): JobStatus | undefined {
+    const job = this.jobs.get(jobId);
+    return job && { ...job.status };
+  }
+
+  /**
+   * Requests received with a method and path.
+   *
+   * @param method - HTTP method
+   * @param path - Exact path, or a pattern it must match
+   */
+  requestsTo(method: string, path: string | RegExp): MockRequest[] {
+    return this.requests.filter(
+      (request) =>
+        request.method === method.toUpperCase() &&
+        (typeof path === "string" ? request.path === path : path.test(request.path))
+    );
+  }
+
+  /**
+   * Assert that requests were received with a method and path.
+   *
+   * @param method - HTTP method
+   * @param path - Exact path, or a pattern it must match
+   * @param times - Exact number of requests expected; at least one if omitted
+   * @returns The matching requests
+   * @throws Error describing the requests received otherwise
+   */
+  assertRequested(method: string, path: string | RegExp, times?: number): MockRequest[] {
+    const matching = this.requestsTo(method, path);
+    if (times === undefined ? matching.length === 0 : matching.length !== times) {
+      const received = this.requests.map((r) => `  ${r.method} ${r.path}`).join("\n");
+      throw new Error(
+        `Expected ${times ?? "at least 1"} ${method.toUpperCase()} ${path} request(s), got ${matching.length}. Received:\n${received || "  (none)"}`
+      );
+    }
+    return matching;
+  }
+
+  /**
+   * Forget all jobs, requests, queued scripts and failures, and stop every
+   * running job timeline.
+   */
+  reset(): void {
+    for (const job of this.jobs.values()) {
+      for (const timer of job.timers) clearTimeout(timer);
+    }
+    this.jobs.clear();
+    this.requests.length = 0;
+    this.scripts = [];
+    this.failures = [];
+    this.nextId = 1;
+    this.used = 0;
+  }
+
+  /**
+   * Answer a request as the Flense API would.
+   *
+   * @param request - The request
+   */
+  async handle(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const method = request.method.toUpperCase();
+    const path = url.pathname;
+    const recorded: MockRequest = {
+      method,
+      path,
+      query: url.searchParams,
+      headers: request.headers,
+    };
+    this.requests.push(recorded);
+    await this.readBody(request, recorded);
+
+    if (this.options.latency) {
+      await new Promise((resolve) => setTimeout(resolve, this.options.latency));
+    }
+
+    const failure = this.takeFailure(method, path);
+    if (failure) {
+      return json(
+        { success: false, error: failure.error ?? "Mock failure", code: failure.code },
+        failure.status,
+        failure.headers
+      );
+    }
+
+    if (
+      this.options.apiKey !== undefined &&
+      request.headers.get("authorization") !== `Bearer ${this.options.apiKey}`
+    ) {
+      return json({ success: false, error: "Invalid API key" }, 401);
+    }
+
+    if (method === "POST" && path === "/v1/queue/jobs") {
+      return this.createJob(recorded, false);
+    }
+    if (method === "POST" && path === "/v1/queue/parse") {
+      return this.createJob(recorded, true);
+    }
+    if (method === "POST" && path === "/v1/flense/") {
+      return this.parseSync();
+    }
+    if (method === "GET" && path === "/v1/usage") {
+      const { quota } = this.options;
+      return json({
+        plan: quota === undefined ? "unlimited" : "mock",
+        limit: quota ?? null,
+        used: this.used,
+        remaining: quota === undefined ? null : Math.max(0, quota - this.used),
+        unlimited: quota === undefined,
+      });
+    }
+    if (method === "GET" && path === "/v1/queue/jobs") {
+      const jobs = [...this.jobs.values()].map((job) => job.status).reverse();
+      return json({ jobs, nextCursor: null });
+    }
+
+    const match = /^\/v1\/queue\/jobs\/([^/]+)(\/subscribe|\/cancel)?$/.exec(path);
+    const job = match && this.jobs.get(decodeURIComponent(match[1]!));
+    if (!match) {
+      return json({ success: false, error: `No mock for ${method} ${path}` }, 404);
+    }
+    if (!job) {
+      return json({ success: false, error: "Job not found" }, 404);
+    }
+    if (method === "GET" && !match[2]) return json(job.status);
+    if (method === "GET" && match[2] === "/subscribe") {
+      return this.subscribe(job, request);
+    }
+    if (method === "POST" && match[2] === "/cancel") {
+      if (!isFinished(job.status)) {
+        for (const timer of job.timers) clearTimeout(timer);
+        this.finish(job, "cancelled", { state: "cancelled" });
+      }
+      return json(job.status);
+    }
+    return json({ success: false, error: `No mock for ${method} ${path}` }, 404);
+  }
+
+  private async readBody(request: Request, recorded: MockRequest): Promise<void> {
+    const contentType = request.headers.get("content-type") ?? "";
+    if (contentType.startsWith("application/json")) {
+      recorded.body = await request.json().catch(() => undefined);
+    } else if (contentType.startsWith("multipart/form-data")) {
+      const form = await request.formData();
+      const fields: Record<string, unknown> = {};
+      form.forEach((value, name) => {
+        if (typeof value === "string") {
+          fields[name] = value;
+        } else {
+          recorded.file = { name: value.name, size: value.size, type: value.type };
+        }
+      });
+      recorded.body = fields;
+    } else if (request.body) {
+      await request.arrayBuffer();
+    }
+  }
+
+  private takeFailure(method: string, path: string): MockFailure | undefined {
+    const index = this.failures.findIndex(
+      (failure) => failure.match === undefined || failure.match === `${method} ${path}`
+    );
+    if (index === -1) return undefined;
+    const failure = this.failures[index]!;
+    failure.times = (failure.times ?? 1) - 1;
+    if (failure.times <= 0) this.failures.splice(index, 1);
+    return failure;
+  }
+
+  private nextScript(): MockJobScript {
+    return this.scripts.shift() ?? this.options.defaultJob ?? {};
+  }
+
+  private createJob(request: MockRequest, upload: boolean): Response {
+    const { quota } = this.options;
+    if (quota !== undefined && this.used >= quota) {
+      return json(
+        { success: false, error: "Parse quota exceeded", code: "quota_exceeded" },
+        402
+      );
+    }
+    this.used++;
+    const quotaFields =
+      quota === undefined ? { unlimited: true } : { remaining: quota - this.used };
+
+    const script = this.nextScript();
+    const documentId = `doc_mock_${this.nextId}`;
+
+    if (upload && script.cached) {
+      this.nextId++;
+      return json({
+        success: true,
+        ...quotaFields,
+        cached: true,
+        documentId,
+        markdown: script.markdown ?? DEFAULT_MARKDOWN,
+        ...(script.structured && { structured: script.structured }),
+      });
+    }
+
+    const id = `job_mock_${this.nextId++}`;
+    const job: MockJob = {
+      status: {
+        id,
+        state: "created",
+        data: request.body as Record<string, unknown> | undefined,
+        createdOn: new Date().toISOString(),
+      },
+      events: [],
+      listeners: new Set(),
+      timers: [],
+    };
+    this.jobs.set(id, job);
+    this.emit(job, "status", job.status);
+    this.schedule(job, script, documentId);
+
+    return json({ success: true, jobId: id, documentId, ...quotaFields });
+  }
+
+  /**
+   * Run the script's timeline on timers, starting now.
+   */
+  private schedule(job: MockJob, script: MockJobScript, documentId: string): void {
+    let at = script.queueTime ?? 0;
+    const later = (callback: () => void) => job.timers.push(setTimeout(callback, at));
+
+    later(() => {
+      job.status = { ...job.status, state: "active", startedOn: new Date().toISOString() };
+      this.emit(job, "status", job.status);
+    });
+    for (const step of script.steps ?? []) {
+      at += step.delay ?? 0;
+      later(() => {
+        if (step.progress) this.emit(job, "progress", step.progress);
+        if (step.content) this.emit(job, "content", step.content);
+      });
+    }
+    at += script.processingTime ?? 0;
+    later(() => {
+      if (script.error !== undefined) {
+        this.finish(job, "failed", { state: "failed", error: script.error });
+        return;
+      }
+      const startedOn = Date.parse(job.status.startedOn!);
+      this.finish(job, "complete", {
+        state: "completed",
+        output: {
+          documentId,
+          markdown: script.markdown ?? DEFAULT_MARKDOWN,
+          ...(script.structured && { structured: script.structured }),
+          processingTime: Date.now() - startedOn,
+        },
+      });
+    });
+  }
+
+  private finish(job: MockJob, event: string, update: Partial<JobStatus>): void {
+    job.status = { ...job.status, ...update, completedOn: new Date().toISOString() };
+    this.emit(job, event, job.status);
+  }
+
+  private emit(job: MockJob, event: string, data: unknown): void {
+    job.events.push({ event, data: JSON.stringify(data) });
+    for (const listener of job.listeners) listener();
+  }
+
+  private parseSync(): Response {
+    const script = this.nextScript();
+    if (script.error !== undefined) {
+      return json({ success: false, error: script.error }, 422);
+    }
+    return json({
+      success: true,
+      markdown: script.markdown ?? DEFAULT_MARKDOWN,
+      ...(script.structured && { structured: script.structured }),
+    });
+  }
+
+  /**
+   * Stream the job's events, replaying those after `Last-Event-ID` (or all
+   * of them), and close the stream once the job has finished.
+   */
+  private subscribe(job: MockJob, request: Request): Response {
+    const lastEventId = Number(request.headers.get("last-event-id") ?? -1);
+    let next = Number.isInteger(lastEventId) ? lastEventId + 1 : 0;
+    const encoder = new TextEncoder();
+
+    let listener: () => void = () => {};
+    const body = new ReadableStream<Uint8Array>({
+      start: (controller) => {
+        const stop = () => {
+          job.listeners.delete(listener);
+          request.signal.removeEventListener("abort", stop);
+          try {
+            controller.close();
+          } catch {
+            // Already closed by the reader
+          }
+        };
+        listener = () => {
+          for (; next < job.events.length; next++) {
+            const { event, data } = job.events[next]!;
+            controller.enqueue(encoder.encode(`id: ${next}\nevent: ${event}\ndata: ${data}\n\n`));
+          }
+          if (isFinished(job.status)) stop();
+        };
+        job.listeners.add(listener);
+        request.signal.addEventListener("abort", stop, { once: true });
+        listener();
+      },
+      cancel: () => {
+        job.listeners.delete(listener);
+      },
+    });
+
+    return new Response(body, {
+      headers: { "Content-Type": "text/event-stream", "Cache-Control": "no-cache" },
+    });
+  }
+}
@@ -0,0 +1,160 @@
+/**
+ * HTTP transport shared by every request a client makes: a pluggable
+ * `fetch`, default headers, per-request timeouts and middleware.
+ *
+ * @example Add a tracing header and log failed requests
+ * ```typescript
+ * const flense = new Flense({
+ *   timeout: 30_000,
+ *   middleware: [
+ *     {
+ *       onRequest: (request) => {
+ *         request.headers.set('traceparent', currentTraceparent());
+ *       },
+ *       onResponse: (response, request) => {
+ *         if (!response.ok) log.warn(`${request.method} ${request.url}: ${response.status}`);
+ *       },
+ *     },
+ *   ],
+ * });
+ * ```
+ *
+ * @module
+ */
+
+import { FlenseTimeoutError } from "./errors.js";
+
+/**
+ * Hooks around every HTTP request to the Flense API, including uploads,
+ * `parseFileSync()` and SSE connections. Retried requests pass through the
+ * hooks again on each attempt.
+ *
+ * `onRequest` hooks run in the order the middleware is listed; `onResponse`
+ * and `onError` hooks run in reverse order, so the first middleware wraps
+ * all others.
+ */
+export interface FlenseMiddleware {
+  /**
+   * Called before a request is sent. Modify `request.headers` in place, or
+   * return a new `Request` (e.g. `new Request(request, { headers })`) to
+   * send instead.
+   */
+  onRequest?: (request: Request) => Request | void | Promise<Request | void>;
+
+  /**
+   * Called with every response, including error statuses. Return a
+   * `Response` to use instead.
+   */
+  onResponse?: (
+    response: Response,
+    request: Request
+  ) => Response | void | Promise<Response | void>;
+
+  /**
+   * Called when a request fails without a response (network error,
+   * timeout or abort). Return a `Response` to recover with it; otherwise
+   * the error is thrown.
+   */
+  onError?: (
+    error: unknown,
+    request: Request
+  ) => Response | void | Promise<Response | void>;
+}
+
+/**
+ * Transport settings, as given in {@link FlenseConfig}.
+ */
+export interface TransportOptions {
+  /** `fetch` implementation to send requests with */
+  fetch?: typeof fetch;
+  /** Milliseconds to wait for response headers before giving up */
+  timeout?: number;
+  /** Headers added to every request */
+  headers?: Record<string, string>;
+  /** Middleware applied to every request */
+  middleware?: FlenseMiddleware[];
+}
+
+/**
+ * Sends one HTTP request through the configured fetch, headers, timeout and
+ * middleware.
+ */
+export type Transport = (url: string, init?: RequestInit) => Promise<Response>;
+
+/**
+ * Create the transport for a client.
+ *
+ * @param options - Fetch implementation, timeout, headers and middleware
+ */
+export function createTransport(options: TransportOptions = {}): Transport {
+  const middleware = options.middleware ?? [];
+  const { timeout } = options;
+
+  return async (url, init = {}) => {
+    const fetchImpl = options.fetch ?? globalThis.fetch;
+    const headers = new Headers(options.headers);
+    new Headers(init.headers).forEach((value, name) => headers.set(name, value));
+
+    // Abort on either the caller's signal or the timeout. For event streams
+    // the caller's signal stays linked after the response arrives, so it can
+    // still close the stream; otherwise the link ends with the request.
+    const controller = timeout !== undefined ? new AbortController() : null;
+    const callerSignal = init.signal ?? undefined;
+    const forwardAbort = () => controller?.abort(callerSignal?.reason);
+    let timedOut = false;
+    const timer =
+      controller &&
+      setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, timeout);
+    if (callerSignal?.aborted) forwardAbort();
+    else if (controller) {
+      callerSignal?.addEventListener("abort", forwardAbort, { once: true });
+    }
+    let streaming = false;
+
+    let request = new Request(url, {
+      ...init,
+      headers,
+      signal: controller?.signal ?? callerSignal,
+      // Required by Node.js fetch for streaming request bodies
+      ...(init.body instanceof ReadableStream && { duplex: "half" }),
+    });
+
+    try {
+      for (const { onRequest } of middleware) {
+        request = (await onRequest?.(request)) ?? request;
+      }
+
+      let response: Response;
+      try {
+        response = await fetchImpl(request);
+      } catch (e) {
+        const error = timedOut
+          ? new FlenseTimeoutError(
+              `Request to ${request.url} timed out after ${timeout}ms`,
+              timeout!
+            )
+          : e;
+        let recovered: Response | undefined;
+        for (const { onError } of [...middleware].reverse()) {
+          recovered = (await onError?.(error, request)) ?? undefined;
+          if (recovered) break;
+        }
+        if (!recovered) throw error;
+        response = recovered;
+      }
+
+      for (const { onResponse } of [...middleware].reverse()) {
+        response = (await onResponse?.(response, request)) ?? response;
+      }
+      streaming =
+        response.headers.get("content-type")?.startsWith("text/event-stream") ?? false;
+      return response;
+    } finally {
+      if (timer) clearTimeout(timer);
+      if (!streaming) callerSignal?.removeEventListener("abort", forwardAbort);
+    }
+  };
+}
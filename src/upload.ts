@@ -0,0 +1,413 @@
+/**
+ * Multipart upload bodies for file parsing.
+ *
+ * Blobs, Files and buffers are sent as `FormData`, which works in every
+ * runtime and keeps a `Content-Length`. Streams are encoded as a streaming
+ * `multipart/form-data` body, so large documents are never held in memory
+ * as a whole.
+ *
+ * @module
+ */
+
+import { FlenseError } from "./errors.js";
+import {
+  basename,
+  getMimeTypeFromFilename,
+  SNIFF_LENGTH,
+  type ByteReader,
+} from "./mime.js";
+
+/**
+ * A document to upload.
+ *
+ * Node.js `Readable` streams are accepted as `AsyncIterable<Uint8Array>`.
+ * Stream inputs can only be read once, so their uploads are not retried.
+ */
+export type FileInput =
+  | Buffer
+  | Uint8Array
+  | Blob
+  | ReadableStream<Uint8Array>
+  | AsyncIterable<Uint8Array>;
+
+/**
+ * A request body that can be (re)created for each upload attempt.
+ */
+export interface UploadBody {
+  /** Create the body for one attempt */
+  create: () => BodyInit;
+  /** Headers the body requires (e.g. the multipart boundary) */
+  headers: Record<string, string>;
+  /** Whether `create` may be called again for a retry */
+  replayable: boolean;
+}
+
+/**
+ * Options for uploading a file.
+ */
+export interface UploadOptions {
+  /**
+   * Upload in chunks that are retried individually and resumed after
+   * connection failures, instead of as a single request. Recommended for
+   * large files on unreliable networks.
+   * @default false
+   */
+  resumable?: boolean;
+
+  /**
+   * Chunk size in bytes for resumable uploads.
+   * @default 8 MiB
+   */
+  chunkSize?: number;
+
+  /**
+   * Continue an earlier resumable upload session, e.g. from
+   * {@link FlenseUploadError.uploadId}. Implies `resumable`.
+   */
+  uploadId?: string;
+
+  /**
+   * Consecutive failed chunk attempts before giving up with a
+   * {@link FlenseUploadError}. Reset whenever a chunk succeeds.
+   * @default 10
+   */
+  maxRetries?: number;
+}
+
+/**
+ * Progress of a resumable upload.
+ */
+export interface UploadProgress {
+  /** Upload session ID; pass it as `uploadId` to resume the upload later */
+  uploadId: string;
+  /** Bytes received by the server so far */
+  bytesUploaded: number;
+  /** Total size in bytes, or `null` for streams of unknown length */
+  totalBytes: number | null;
+  /** Upload percentage (0-100), or `null` if the total size is unknown */
+  progress: number | null;
+}
+
+/**
+ * Random-access reader over a file, used for resumable uploads.
+ */
+export interface ChunkSource {
+  /** Total size in bytes, or `null` for streams */
+  size: number | null;
+  /**
+   * Read up to `length` bytes starting at `offset`. Returns an empty chunk
+   * at the end of the file.
+   */
+  read: (offset: number, length: number) => Promise<Uint8Array | Blob>;
+}
+
+const encoder = new TextEncoder();
+
+function isAsyncIterable(value: unknown): value is AsyncIterable<Uint8Array> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    Symbol.asyncIterator in value
+  );
+}
+
+async function* iterateStream(
+  stream: ReadableStream<Uint8Array>
+): AsyncGenerator<Uint8Array> {
+  const reader = stream.getReader();
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      yield value;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+function escapeQuotes(value: string): string {
+  return value.replace(/"/g, "%22").replace(/\r?\n/g, " ");
+}
+
+function multipartStream(
+  boundary: string,
+  file: AsyncIterable<Uint8Array>,
+  filename: string,
+  fields: Record<string, string>
+): ReadableStream<Uint8Array> {
+  async function* generate(): AsyncGenerator<Uint8Array> {
+    yield encoder.encode(
+      `--${boundary}\r\n` +
+        `Content-Disposition: form-data; name="file"; filename="${escapeQuotes(filename)}"\r\n` +
+        `Content-Type: ${getMimeTypeFromFilename(filename)}\r\n\r\n`
+    );
+    for await (const chunk of file) {
+      yield chunk;
+    }
+    for (const [name, value] of Object.entries(fields)) {
+      yield encoder.encode(
+        `\r\n--${boundary}\r\n` +
+          `Content-Disposition: form-data; name="${escapeQuotes(name)}"\r\n\r\n` +
+          value
+      );
+    }
+    yield encoder.encode(`\r\n--${boundary}--\r\n`);
+  }
+
+  const iterator = generate();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { done, value } = await iterator.next();
+      if (done) controller.close();
+      else controller.enqueue(value);
+    },
+    async cancel() {
+      await iterator.return(undefined);
+    },
+  });
+}
+
+/**
+ * Build the multipart body for uploading `file` with extra form fields.
+ *
+ * @param file - The document
+ * @param filename - Name sent with the upload (used for MIME type detection)
+ * @param fields - Additional string fields, e.g. JSON-encoded options
+ */
+export function createUploadBody(
+  file: FileInput,
+  filename: string,
+  fields: Record<string, string> = {}
+): UploadBody {
+  if (file instanceof Blob || file instanceof Uint8Array) {
+    // The part's Content-Type comes from the Blob, so keep it in line with
+    // the filename (re-wrapping a Blob does not copy the data). Buffers are
+    // wrapped once, not per attempt.
+    const mimeType = getMimeTypeFromFilename(filename);
+    const blob =
+      file instanceof Blob && file.type === mimeType
+        ? file
+        : // Uint8Array views are valid parts; the DOM types only allow ArrayBuffer-backed ones
+          new Blob([file as BlobPart], { type: mimeType });
+    return {
+      create: () => {
+        const formData = new FormData();
+        formData.append("file", blob, filename);
+        for (const [name, value] of Object.entries(fields)) {
+          formData.append(name, value);
+        }
+        return formData;
+      },
+      headers: {},
+      replayable: true,
+    };
+  }
+
+  const boundary = `----FlenseBoundary${Math.random().toString(36).substring(2)}${Date.now().toString(36)}`;
+  const headers = {
+    "Content-Type": `multipart/form-data; boundary=${boundary}`,
+  };
+
+  const source = isAsyncIterable(file) ? file : iterateStream(file);
+  let used = false;
+  return {
+    create: () => {
+      if (used) {
+        throw new FlenseError("Stream uploads cannot be retried");
+      }
+      used = true;
+      return multipartStream(boundary, source, filename, fields);
+    },
+    headers,
+    replayable: false,
+  };
+}
+
+function concatBytes(pieces: Uint8Array[], length: number): Uint8Array {
+  if (pieces.length === 1) return pieces[0]!;
+  const bytes = new Uint8Array(length);
+  let offset = 0;
+  for (const piece of pieces) {
+    bytes.set(piece, offset);
+    offset += piece.byteLength;
+  }
+  return bytes;
+}
+
+function streamChunkSource(source: AsyncIterable<Uint8Array>): ChunkSource {
+  const iterator = source[Symbol.asyncIterator]();
+  // Only the current chunk is kept, so it can be re-sent after a failure
+  let position = 0;
+  let pieces: Uint8Array[] = [];
+  let buffered = 0;
+  let ended = false;
+
+  return {
+    size: null,
+    async read(offset, length) {
+      if (offset < position) {
+        throw new FlenseError(
+          `Cannot rewind stream upload to byte ${offset}; already read past ${position}`
+        );
+      }
+      while (!ended && position + buffered < offset + length) {
+        const next = await iterator.next();
+        if (next.done) {
+          ended = true;
+        } else {
+          pieces.push(next.value);
+          buffered += next.value.byteLength;
+        }
+      }
+
+      const bytes = concatBytes(pieces, buffered);
+      const rest = bytes.subarray(Math.min(offset - position, bytes.byteLength));
+      position += bytes.byteLength - rest.byteLength;
+      pieces = [rest];
+      buffered = rest.byteLength;
+      return rest.subarray(0, length);
+    },
+  };
+}
+
+/**
+ * Create a chunk reader for a resumable upload.
+ *
+ * Blobs and buffers are sliced without copying. Streams are read
+ * sequentially and can only be resumed at or after the current chunk.
+ *
+ * @param file - The document
+ */
+export function createChunkSource(file: FileInput): ChunkSource {
+  if (file instanceof Blob) {
+    return {
+      size: file.size,
+      read: async (offset, length) => file.slice(offset, offset + length),
+    };
+  }
+  if (file instanceof Uint8Array) {
+    return {
+      size: file.byteLength,
+      read: async (offset, length) => file.subarray(offset, offset + length),
+    };
+  }
+  return streamChunkSource(isAsyncIterable(file) ? file : iterateStream(file));
+}
+
+/**
+ * Track how many bytes of a document are read for upload.
+ *
+ * @param file - The document
+ * @returns The document to upload in place of `file`, and a function
+ *   returning the bytes read so far (the full size for Blobs and buffers)
+ */
+export function countBytes(file: FileInput): {
+  file: FileInput;
+  bytes: () => number;
+} {
+  if (file instanceof Blob) return { file, bytes: () => file.size };
+  if (file instanceof Uint8Array) return { file, bytes: () => file.byteLength };
+
+  let count = 0;
+  const source = isAsyncIterable(file) ? file : iterateStream(file);
+  async function* counted(): AsyncGenerator<Uint8Array> {
+    for await (const chunk of source) {
+      count += chunk.byteLength;
+      yield chunk;
+    }
+  }
+  return { file: counted(), bytes: () => count };
+}
+
+async function peekStream(
+  source: AsyncIterable<Uint8Array>,
+  length: number
+): Promise<{ head: Uint8Array; stream: AsyncIterable<Uint8Array> }> {
+  const iterator = source[Symbol.asyncIterator]();
+  const pieces: Uint8Array[] = [];
+  let size = 0;
+  while (size < length) {
+    const next = await iterator.next();
+    if (next.done) break;
+    pieces.push(next.value);
+    size += next.value.byteLength;
+  }
+
+  // Replay the bytes read so far, then continue with the original stream
+  async function* replay(): AsyncGenerator<Uint8Array> {
+    yield* pieces;
+    yield* { [Symbol.asyncIterator]: () => iterator };
+  }
+  return { head: concatBytes(pieces, size), stream: replay() };
+}
+
+/**
+ * A document opened for inspection before upload.
+ */
+export interface InspectedFile {
+  /** The document to upload; for streams, a replacement that replays the bytes read */
+  file: FileInput;
+  /** Size in bytes, or `null` for a stream longer than the inspected head */
+  size: number | null;
+  /** Reads any range of Blobs and buffers, but only the head of a stream */
+  read: ByteReader;
+}
+
+/**
+ * Open a document for content sniffing and validation.
+ *
+ * Streams are peeked, not consumed: the first {@link SNIFF_LENGTH} bytes are
+ * buffered, and the returned `file` yields the complete content and must be
+ * used in place of the original.
+ *
+ * @param file - The document
+ */
+export async function inspectFile(file: FileInput): Promise<InspectedFile> {
+  if (file instanceof Blob) {
+    return {
+      file,
+      size: file.size,
+      read: async (offset, length) =>
+        new Uint8Array(await file.slice(offset, offset + length).arrayBuffer()),
+    };
+  }
+  if (file instanceof Uint8Array) {
+    return {
+      file,
+      size: file.byteLength,
+      read: async (offset, length) => file.subarray(offset, offset + length),
+    };
+  }
+
+  const { head, stream } = await peekStream(
+    isAsyncIterable(file) ? file : iterateStream(file),
+    SNIFF_LENGTH
+  );
+  return {
+    file: stream,
+    // A head shorter than requested means the stream has ended
+    size: head.byteLength < SNIFF_LENGTH ? head.byteLength : null,
+    read: async (offset, length) => head.subarray(offset, offset + length),
+  };
+}
+
+/**
+ * Open a local file for upload without reading it into memory.
+ *
+ * Uses a file-backed `Blob` where available (Node.js 19.8+), which can be
+ * re-read for retries, and a read stream otherwise. Node.js only.
+ *
+ * @param filePath - Path to the file
+ */
+export async function openFile(filePath: string): Promise<FileInput> {
+  const fs = await import("node:fs");
+  if (typeof fs.openAsBlob === "function") {
+    return fs.openAsBlob(filePath, {
+      type: getMimeTypeFromFilename(basename(filePath)),
+    });
+  }
+  // Fail early on missing files instead of mid-upload
+  await fs.promises.access(filePath, fs.constants.R_OK);
+  return fs.createReadStream(filePath);
+}
@@ -0,0 +1,73 @@
+/**
+ * Parse quota and account usage.
+ *
+ * @example Warn before running out of credits
+ * ```typescript
+ * const flense = new Flense({
+ *   quotaWarning: {
+ *     threshold: 100,
+ *     onWarning: ({ remaining }) => alerts.send(`Only ${remaining} Flense parses left`),
+ *   },
+ * });
+ * ```
+ *
+ * @module
+ */
+
+/**
+ * Parse quota left after a request, as reported by the API.
+ */
+export interface Quota {
+  /** Parses left in the current billing period, or `null` when unlimited */
+  remaining: number | null;
+  /** Whether the plan has no parse limit */
+  unlimited: boolean;
+}
+
+/**
+ * Plan limits and consumption for the current billing period, from
+ * {@link Flense.getUsage}.
+ */
+export interface Usage extends Quota {
+  /** Plan name, e.g. `"free"` or `"pro"` */
+  plan: string;
+  /** Parses included in the period, or `null` when unlimited */
+  limit: number | null;
+  /** Parses used in the period */
+  used: number;
+  /** Pages parsed in the period, if reported */
+  pagesUsed?: number;
+  /** Start of the billing period (ISO 8601) */
+  periodStart?: string;
+  /** When the quota resets (ISO 8601) */
+  periodEnd?: string;
+}
+
+/**
+ * Low-quota warning settings, as given in {@link FlenseConfig}.
+ */
+export interface QuotaWarningOptions {
+  /** Warn once the remaining quota drops below this many parses */
+  threshold: number;
+
+  /**
+   * Called when the remaining quota drops below `threshold`. Called again
+   * only after the quota has recovered (e.g. a new billing period) and
+   * dropped again.
+   */
+  onWarning?: (quota: Quota) => void;
+}
+
+/**
+ * Read the quota fields of an API response.
+ *
+ * @returns The quota, or `undefined` if the response has none
+ */
+export function readQuota(response: {
+  remaining?: number | null;
+  unlimited?: boolean;
+}): Quota | undefined {
+  if (response.unlimited) return { remaining: null, unlimited: true };
+  if (typeof response.remaining !== "number") return undefined;
+  return { remaining: response.remaining, unlimited: false };
+}
@@ -0,0 +1,234 @@
+/**
+ * Client-side checks run on files before they are uploaded.
+ *
+ * Catches problems that would otherwise only surface after an upload or a
+ * failed job: unsupported types, empty or over-size files, password-protected
+ * PDFs and documents with too many pages.
+ *
+ * @module
+ */
+
+import { getMimeTypeFromFilename, MIME_TYPES, type ByteReader } from "./mime.js";
+import { countSelectedPages, type PageSelection } from "./pages.js";
+
+/**
+ * Limits applied when validating files.
+ */
+export interface ValidationOptions {
+  /**
+   * Largest accepted file size in bytes.
+   * @default no limit
+   */
+  maxFileSize?: number;
+
+  /**
+   * Largest accepted (estimated) page count for PDFs.
+   * @default no limit
+   */
+  maxPages?: number;
+
+  /**
+   * Pages that will be parsed. When set, `maxPages` applies to the selected
+   * pages rather than the whole document.
+   * @default all pages
+   */
+  pages?: PageSelection;
+}
+
+/**
+ * Kinds of validation problems.
+ */
+export type ValidationIssueCode =
+  | "unsupported_type"
+  | "empty_file"
+  | "file_too_large"
+  | "encrypted_pdf"
+  | "too_many_pages"
+  | "truncated_pdf";
+
+/**
+ * A problem found while validating a file.
+ */
+export interface ValidationIssue {
+  /** Machine-readable issue kind */
+  code: ValidationIssueCode;
+  /** Errors block the upload; warnings are informational */
+  severity: "error" | "warning";
+  /** Human-readable description, suitable for showing to users */
+  message: string;
+}
+
+/**
+ * Outcome of validating a file.
+ */
+export interface ValidationResult {
+  /** Whether the file has no error-severity issues */
+  valid: boolean;
+  /** Filename the file would be uploaded under (after type detection) */
+  filename: string;
+  /** MIME type the file would be uploaded as */
+  mimeType: string;
+  /** Size in bytes, or `null` if unknown (long streams) */
+  size: number | null;
+  /** Estimated page count for PDFs, or `null` if it could not be determined */
+  pageCount: number | null;
+  /** Problems found, errors first */
+  issues: ValidationIssue[];
+}
+
+/** Files up to this size are scanned completely for PDF metadata. */
+const FULL_SCAN_LIMIT = 8 * 1024 * 1024;
+
+/** Bytes scanned at each end of larger files. */
+const SAMPLE_LENGTH = 256 * 1024;
+
+const SUPPORTED_TYPES = new Set(Object.values(MIME_TYPES));
+
+function formatBytes(bytes: number): string {
+  const units = ["bytes", "KB", "MB", "GB"];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`;
+}
+
+async function readPdfSample(
+  read: ByteReader,
+  size: number | null
+): Promise<{ text: string; complete: boolean; tail: string | null }> {
+  const decoder = new TextDecoder("latin1");
+
+  if (size !== null && size <= FULL_SCAN_LIMIT) {
+    const text = decoder.decode(await read(0, size));
+    return { text, complete: true, tail: text.slice(-1024) };
+  }
+
+  const head = decoder.decode(await read(0, SAMPLE_LENGTH));
+  if (size === null) {
+    // Only the head of a stream can be inspected
+    return { text: head, complete: false, tail: null };
+  }
+  const tail = decoder.decode(
+    await read(Math.max(0, size - SAMPLE_LENGTH), SAMPLE_LENGTH)
+  );
+  return { text: `${head}\n${tail}`, complete: false, tail: tail.slice(-1024) };
+}
+
+/**
+ * Estimate a PDF's page count from its page tree.
+ *
+ * The root `/Pages` node's `/Count` is the total, so the largest count found
+ * next to a `/Type /Pages` entry wins. Without one (e.g. compressed object
+ * streams), individual `/Type /Page` objects are counted when the whole file
+ * was scanned.
+ */
+function estimatePageCount(text: string, complete: boolean): number | null {
+  let count: number | null = null;
+
+  for (const match of text.matchAll(/\/Type\s*\/Pages\b/g)) {
+    const window = text.slice(Math.max(0, match.index - 512), match.index + 512);
+    for (const value of window.matchAll(/\/Count\s+(\d+)/g)) {
+      count = Math.max(count ?? 0, Number(value[1]));
+    }
+  }
+  if (count !== null || !complete) return count;
+
+  const pages = text.match(/\/Type\s*\/Page(?![a-zA-Z])/g)?.length ?? 0;
+  return pages > 0 ? pages : null;
+}
+
+/**
+ * Validate a file before upload.
+ *
+ * @param file - Size and a reader over the file's bytes
+ * @param filename - Filename the file will be uploaded under
+ * @param options - Size and page limits
+ * @returns The validation result; check `valid` or `issues`
+ */
+export async function validateFile(
+  file: { size: number | null; read: ByteReader },
+  filename: string,
+  options: ValidationOptions = {}
+): Promise<ValidationResult> {
+  const mimeType = getMimeTypeFromFilename(filename);
+  const { size } = file;
+  const issues: ValidationIssue[] = [];
+  let pageCount: number | null = null;
+
+  if (!SUPPORTED_TYPES.has(mimeType)) {
+    issues.push({
+      code: "unsupported_type",
+      severity: "error",
+      message: `"${filename}" is not a supported document type`,
+    });
+  }
+
+  if (size === 0) {
+    issues.push({
+      code: "empty_file",
+      severity: "error",
+      message: `"${filename}" is empty`,
+    });
+  } else if (
+    size !== null &&
+    options.maxFileSize !== undefined &&
+    size > options.maxFileSize
+  ) {
+    issues.push({
+      code: "file_too_large",
+      severity: "error",
+      message: `"${filename}" is ${formatBytes(size)}, larger than the ${formatBytes(options.maxFileSize)} limit`,
+    });
+  }
+
+  if (mimeType === MIME_TYPES.pdf && size !== 0) {
+    const { text, complete, tail } = await readPdfSample(file.read, size);
+
+    // The trailer references an /Encrypt dictionary in encrypted PDFs
+    if (/\/Encrypt\s*(?:\d+\s+\d+\s+R|<<)/.test(text)) {
+      issues.push({
+        code: "encrypted_pdf",
+        severity: "error",
+        message: `"${filename}" is password-protected or encrypted`,
+      });
+    }
+
+    pageCount = estimatePageCount(text, complete);
+    if (pageCount !== null && options.maxPages !== undefined) {
+      const selected =
+        options.pages !== undefined
+          ? countSelectedPages(options.pages, pageCount)
+          : pageCount;
+      if (selected > options.maxPages) {
+        issues.push({
+          code: "too_many_pages",
+          severity: "error",
+          message:
+            selected === pageCount
+              ? `"${filename}" has about ${pageCount} pages, more than the ${options.maxPages} page limit`
+              : `${selected} pages of "${filename}" are selected, more than the ${options.maxPages} page limit`,
+        });
+      }
+    }
+
+    if (tail !== null && !tail.includes("%%EOF")) {
+      issues.push({
+        code: "truncated_pdf",
+        severity: "warning",
+        message: `"${filename}" may be truncated (no end-of-file marker)`,
+      });
+    }
+  }
+
+  return {
+    valid: issues.every((issue) => issue.severity !== "error"),
+    filename,
+    mimeType,
+    size,
+    pageCount,
+    issues,
+  };
+}
@@ -0,0 +1,226 @@
+/**
+ * Webhook signature verification.
+ *
+ * When a job is created with `.withWebhook(url, secret)`, Flense POSTs a JSON
+ * {@link WebhookEvent} to `url` once the job finishes. Each delivery carries a
+ * `Flense-Signature` header of the form `t=<unix seconds>,v1=<hex>`, where the
+ * `v1` value is the HMAC-SHA256 of `"<t>.<raw body>"` keyed with the secret.
+ *
+ * Uses Web Crypto, so it works in Node.js 18+, edge runtimes and serverless
+ * functions alike.
+ *
+ * @example
+ * ```typescript
+ * import { constructWebhookEvent, WEBHOOK_SIGNATURE_HEADER } from 'flense';
+ *
+ * export async function POST(request: Request) {
+ *   const event = await constructWebhookEvent(
+ *     await request.text(),
+ *     request.headers.get(WEBHOOK_SIGNATURE_HEADER),
+ *     process.env.FLENSE_WEBHOOK_SECRET!
+ *   );
+ *   if (event.type === 'job.completed') {
+ *     await save(event.data.id, event.data.output?.markdown);
+ *   }
+ *   return new Response(null, { status: 204 });
+ * }
+ * ```
+ *
+ * @module
+ */
+
+import { FlenseWebhookVerificationError } from "./errors.js";
+import type { JobStatus } from "./index.js";
+
+/** Name of the header carrying the webhook signature. */
+export const WEBHOOK_SIGNATURE_HEADER = "flense-signature";
+
+/**
+ * Types of webhook events.
+ */
+export type WebhookEventType = "job.completed" | "job.failed" | "job.cancelled";
+
+/**
+ * Payload delivered to a webhook URL.
+ */
+export interface WebhookEvent {
+  /** Unique delivery ID; store it to ignore duplicate deliveries */
+  id: string;
+  /** What happened */
+  type: WebhookEventType;
+  /** When the event was created (ISO 8601) */
+  createdAt: string;
+  /** Status of the job at the time of the event */
+  data: JobStatus;
+}
+
+/**
+ * Options for verifying webhook signatures.
+ */
+export interface WebhookVerifyOptions {
+  /**
+   * Maximum age of a delivery in seconds. Older (or future-dated)
+   * signatures are rejected to prevent replay attacks.
+   * @default 300
+   */
+  tolerance?: number;
+
+  /**
+   * Current time in milliseconds, for testing.
+   * @default Date.now()
+   */
+  now?: number;
+}
+
+const DEFAULT_TOLERANCE = 300;
+
+const encoder = new TextEncoder();
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer), (byte) =>
+    byte.toString(16).padStart(2, "0")
+  ).join("");
+}
+
+async function hmacSha256(secret: string, message: BufferSource): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  return toHex(await crypto.subtle.sign("HMAC", key, message));
+}
+
+function signedMessage(
+  timestamp: number,
+  payload: string | Uint8Array
+): Uint8Array<ArrayBuffer> {
+  const prefix = encoder.encode(`${timestamp}.`);
+  const body = typeof payload === "string" ? encoder.encode(payload) : payload;
+  const message = new Uint8Array(prefix.length + body.length);
+  message.set(prefix);
+  message.set(body, prefix.length);
+  return message;
+}
+
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+function parseSignatureHeader(header: string): {
+  timestamp: number;
+  signatures: string[];
+} {
+  let timestamp = NaN;
+  const signatures: string[] = [];
+
+  for (const part of header.split(",")) {
+    const [key, value] = part.trim().split("=", 2);
+    if (key === "t" && value) timestamp = Number(value);
+    else if (key === "v1" && value) signatures.push(value);
+  }
+
+  return { timestamp, signatures };
+}
+
+/**
+ * Compute a `Flense-Signature` header value for a payload.
+ *
+ * Useful for testing webhook handlers.
+ *
+ * @param payload - Raw request body
+ * @param secret - Webhook secret
+ * @param timestamp - Unix time in seconds (defaults to now)
+ * @returns Header value, e.g. `t=1700000000,v1=5f2b...`
+ */
+export async function signWebhookPayload(
+  payload: string | Uint8Array,
+  secret: string,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): Promise<string> {
+  const signature = await hmacSha256(secret, signedMessage(timestamp, payload));
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Verify a webhook signature.
+ *
+ * @param payload - Raw request body, exactly as received (do not re-serialize parsed JSON)
+ * @param signatureHeader - Value of the `Flense-Signature` header
+ * @param secret - Webhook secret passed to `.withWebhook()`
+ * @param options - Replay tolerance
+ * @throws {@link FlenseWebhookVerificationError} if the header is missing or
+ *   malformed, the signature does not match, or the timestamp is outside the tolerance
+ */
+export async function verifyWebhookSignature(
+  payload: string | Uint8Array,
+  signatureHeader: string | null | undefined,
+  secret: string,
+  options: WebhookVerifyOptions = {}
+): Promise<void> {
+  if (!signatureHeader) {
+    throw new FlenseWebhookVerificationError("Missing webhook signature header");
+  }
+
+  const { timestamp, signatures } = parseSignatureHeader(signatureHeader);
+  if (Number.isNaN(timestamp) || signatures.length === 0) {
+    throw new FlenseWebhookVerificationError("Malformed webhook signature header");
+  }
+
+  const tolerance = options.tolerance ?? DEFAULT_TOLERANCE;
+  const now = (options.now ?? Date.now()) / 1000;
+  if (Math.abs(now - timestamp) > tolerance) {
+    throw new FlenseWebhookVerificationError(
+      "Webhook timestamp is outside the allowed tolerance"
+    );
+  }
+
+  const expected = await hmacSha256(secret, signedMessage(timestamp, payload));
+  // Several v1 entries may be present while a secret is being rotated
+  if (!signatures.some((signature) => timingSafeEqual(signature, expected))) {
+    throw new FlenseWebhookVerificationError("Webhook signature does not match");
+  }
+}
+
+/**
+ * Verify a webhook delivery and parse its payload.
+ *
+ * @param payload - Raw request body, exactly as received
+ * @param signatureHeader - Value of the `Flense-Signature` header
+ * @param secret - Webhook secret passed to `.withWebhook()`
+ * @param options - Replay tolerance
+ * @returns The typed webhook event
+ * @throws {@link FlenseWebhookVerificationError} if verification fails or the
+ *   payload is not a valid event
+ */
+export async function constructWebhookEvent(
+  payload: string | Uint8Array,
+  signatureHeader: string | null | undefined,
+  secret: string,
+  options: WebhookVerifyOptions = {}
+): Promise<WebhookEvent> {
+  await verifyWebhookSignature(payload, signatureHeader, secret, options);
+
+  let event: WebhookEvent;
+  try {
+    const text =
+      typeof payload === "string" ? payload : new TextDecoder().decode(payload);
+    event = JSON.parse(text) as WebhookEvent;
+  } catch (e) {
+    throw new FlenseWebhookVerificationError("Webhook payload is not valid JSON", {
+      cause: e,
+    });
+  }
+
+  if (!event || typeof event.type !== "string" || !event.data?.id) {
+    throw new FlenseWebhookVerificationError("Webhook payload is not a Flense event");
+  }
+  return event;
+}
@@ -0,0 +1,51 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { FlenseTimeoutError } from "../dist/index.js";
+import { MockFlenseServer } from "../dist/testing.js";
+
+const pdf = new TextEncoder().encode("%PDF-1.4\n%%EOF");
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+for (const onProgress of [undefined, () => {}]) {
+  const mode = onProgress ? "with onProgress" : "without onProgress";
+
+  test(`timeout fails a slow item ${mode}`, async (t) => {
+    const server = new MockFlenseServer();
+    t.after(() => server.reset());
+    server.enqueueJob({ queueTime: 60_000 });
+    server.enqueueJob({ markdown: "fast" });
+
+    const results = await server.client().parseBatch(
+      [
+        { file: pdf, filename: "slow.pdf" },
+        { file: pdf, filename: "fast.pdf" },
+      ],
+      { timeout: 2000, onProgress }
+    );
+
+    assert.equal(results[0].success, false);
+    assert.ok(results[0].error instanceof FlenseTimeoutError);
+    assert.equal(results[1].success, true);
+  });
+
+  test(`timeout includes the upload ${mode}`, async (t) => {
+    const server = new MockFlenseServer();
+    t.after(() => server.reset());
+    server.enqueueJob({ markdown: "done" });
+    const flense = server.client({
+      fetch: async (input, init) => {
+        const request = new Request(input, init);
+        if (request.method === "POST") await sleep(300);
+        return server.fetch(request);
+      },
+    });
+
+    const [result] = await flense.parseBatch([{ file: pdf, filename: "a.pdf" }], {
+      timeout: 100,
+      onProgress,
+    });
+
+    assert.equal(result.success, false);
+    assert.ok(result.error instanceof FlenseTimeoutError);
+  });
+}
@@ -0,0 +1,20 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { MockFlenseServer } from "../dist/testing.js";
+
+const pdf = new TextEncoder().encode("%PDF-1.4\n%%EOF");
+
+test("a parse with a webhook skips the client-side cache", async () => {
+  const server = new MockFlenseServer();
+  const flense = server.client({ cache: true });
+
+  await flense.parseFile(pdf, "a.pdf").wait({ initialInterval: 5 });
+  const hit = await flense.parseFile(pdf, "a.pdf");
+  assert.match(hit.jobId, /^cached:/);
+
+  const withWebhook = await flense
+    .parseFile(pdf, "a.pdf")
+    .withWebhook("https://example.com/hook", "secret");
+  assert.doesNotMatch(withWebhook.jobId, /^cached:/);
+  server.assertRequested("POST", "/v1/queue/parse", 2);
+});
@@ -0,0 +1,43 @@
+// Runs the built `flense` binary the way npm links it.
+import assert from "node:assert/strict";
+import { execFile } from "node:child_process";
+import { readFile } from "node:fs/promises";
+import { test } from "node:test";
+import { promisify } from "node:util";
+import { MockFlenseServer } from "../dist/testing.js";
+
+const cli = new URL("../dist/cli.js", import.meta.url).pathname;
+const run = (args, env = {}) =>
+  promisify(execFile)(process.execPath, [cli, ...args], {
+    env: { ...process.env, ...env },
+  });
+
+test("flense --help prints usage", async () => {
+  const { stdout } = await run(["--help"]);
+  assert.match(stdout, /Usage: flense/);
+});
+
+test("flense --version prints the package version", async () => {
+  const { version } = JSON.parse(
+    await readFile(new URL("../package.json", import.meta.url), "utf8")
+  );
+  const { stdout } = await run(["--version"]);
+  assert.equal(stdout.trim(), version);
+});
+
+test("flense status talks to the API", async () => {
+  const server = new MockFlenseServer({ apiKey: "test-key" });
+  const { url, close } = await server.listen();
+  try {
+    const { jobId } = await server
+      .client()
+      .parseFile(new TextEncoder().encode("%PDF-1.4\n%%EOF"), "a.pdf");
+    const { stdout } = await run(["status", jobId, "--json", "--base-url", url], {
+      FLENSE_API_KEY: "test-key",
+    });
+    assert.equal(JSON.parse(stdout).id, jobId);
+    server.assertRequested("GET", `/v1/queue/jobs/${jobId}`);
+  } finally {
+    await close();
+  }
+});
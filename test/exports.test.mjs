@@ -0,0 +1,21 @@
+// Smoke tests against the build: every entry point must load under plain
+// Node.js ESM, without a bundler resolving extensionless imports.
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+test("flense loads from dist", async () => {
+  const { Flense, FlenseError, createProxyHandler } = await import("../dist/index.js");
+  assert.equal(typeof Flense, "function");
+  assert.equal(typeof FlenseError, "function");
+  assert.equal(typeof createProxyHandler, "function");
+});
+
+test("flense/chunking loads from dist", async () => {
+  const { chunkMarkdown } = await import("../dist/chunking.js");
+  assert.equal(typeof chunkMarkdown, "function");
+});
+
+test("flense/testing loads from dist", async () => {
+  const { MockFlenseServer } = await import("../dist/testing.js");
+  assert.equal(typeof MockFlenseServer, "function");
+});
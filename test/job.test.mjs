@@ -0,0 +1,19 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { MockFlenseServer } from "../dist/testing.js";
+
+const pdf = new TextEncoder().encode("%PDF-1.4\n%%EOF");
+
+test("cancel() on a handle from job() cancels the job", async () => {
+  const server = new MockFlenseServer();
+  const flense = server.client();
+  server.enqueueJob({ queueTime: 60_000 });
+  const { jobId } = await flense.parseFile(pdf, "a.pdf");
+
+  const job = flense.job(jobId);
+  assert.equal(job.jobId, jobId);
+  await job.cancel();
+
+  server.assertRequested("POST", `/v1/queue/jobs/${jobId}/cancel`, 1);
+  assert.equal((await flense.getJobStatus(jobId)).state, "cancelled");
+});
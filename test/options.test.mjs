@@ -0,0 +1,27 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { FlenseError } from "../dist/index.js";
+import { MockFlenseServer } from "../dist/testing.js";
+
+const pdf = new TextEncoder().encode("%PDF-1.4\n%%EOF");
+
+test("withOptions() normalizes pageOptions like withPageOptions()", () => {
+  const flense = new MockFlenseServer().client();
+  const viaOptions = flense
+    .parseFile(pdf, "a.pdf")
+    .withOptions({ pageOptions: [{ pages: "12, 3-5,1", ocr: true }] });
+  const viaMethod = flense
+    .parseFile(pdf, "a.pdf")
+    .withPageOptions([12, 3, 4, 5, 1], { ocr: true });
+
+  assert.deepEqual(viaOptions.options.pageOptions, [{ pages: "1,3-5,12", ocr: true }]);
+  assert.deepEqual(viaOptions.options.pageOptions, viaMethod.options.pageOptions);
+});
+
+test("withOptions() rejects malformed pageOptions ranges", () => {
+  const job = new MockFlenseServer().client().parseFile(pdf, "a.pdf");
+  assert.throws(
+    () => job.withOptions({ pageOptions: [{ pages: "5-1", ocr: true }] }),
+    FlenseError
+  );
+});
@@ -0,0 +1,46 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { MockFlenseServer } from "../dist/testing.js";
+
+const documentUrl = "http://169.254.169.254/latest/report.pdf";
+
+test("parseUrl() does not fetch the document by default", async () => {
+  const server = new MockFlenseServer();
+  const fetched = [];
+  const flense = server.client({
+    fetch: (input, init) => {
+      fetched.push(input instanceof Request ? input.url : String(input));
+      return server.fetch(input, init);
+    },
+  });
+
+  await flense.parseUrl(documentUrl);
+
+  assert.ok(!fetched.includes(documentUrl));
+  server.assertRequested("POST", "/v1/queue/jobs", 1);
+});
+
+test("parseUrl() probes the document with probeUrls", async () => {
+  const server = new MockFlenseServer();
+  const fetched = [];
+  const flense = server.client({
+    probeUrls: true,
+    fetch: (input, init) => {
+      const request = new Request(input, init);
+      fetched.push(request.url);
+      if (request.url === documentUrl) {
+        return Promise.resolve(
+          new Response("%PDF-1.4\n%%EOF", {
+            status: 206,
+            headers: { "Content-Type": "application/pdf" },
+          })
+        );
+      }
+      return server.fetch(request);
+    },
+  });
+
+  await flense.parseUrl(documentUrl);
+
+  assert.ok(fetched.includes(documentUrl));
+});
@@ -0,0 +1,22 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { createProxyHandler } from "../dist/index.js";
+import { MockFlenseServer } from "../dist/testing.js";
+
+test("the proxy only serves paths below basePath", async (t) => {
+  const server = new MockFlenseServer({ apiKey: "server-key" });
+  const { url, close } = await server.listen();
+  t.after(close);
+  const handler = createProxyHandler({
+    apiKey: "server-key",
+    baseUrl: url,
+    basePath: "/api/flense",
+  });
+
+  const sibling = await handler(new Request("http://app.test/api/flensex/v1/usage"));
+  assert.equal(sibling.status, 404);
+
+  const usage = await handler(new Request("http://app.test/api/flense/v1/usage"));
+  assert.equal(usage.status, 200);
+  server.assertRequested("GET", "/v1/usage", 1);
+});
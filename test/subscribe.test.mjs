@@ -0,0 +1,26 @@
+import assert from "node:assert/strict";
+import { getEventListeners } from "node:events";
+import { test } from "node:test";
+import { MockFlenseServer } from "../dist/testing.js";
+
+const pdf = new TextEncoder().encode("%PDF-1.4\n%%EOF");
+
+test("finished subscriptions release a long-lived signal", async () => {
+  const server = new MockFlenseServer();
+  const flense = server.client();
+  const controller = new AbortController();
+
+  for (let i = 0; i < 3; i++) {
+    server.enqueueJob({ markdown: `# ${i}` });
+    const { jobId } = await flense.parseFile(pdf, `${i}.pdf`);
+    await new Promise((resolve, reject) =>
+      flense.subscribeToJob(
+        jobId,
+        { onComplete: resolve, onError: reject },
+        { signal: controller.signal }
+      )
+    );
+  }
+
+  assert.equal(getEventListeners(controller.signal, "abort").length, 0);
+});